@@ -15,7 +15,6 @@ const sdk = new Whaple({
     // ... other Firebase config fields
   },
   healthCheckTimeout: 3000,
-  queueThreshold: 0, // Always use smart routing
   enableSmartRouting: true
 });
 
@@ -37,7 +36,7 @@ async function basicExample() {
 
     // 3. Send a message with smart routing
     console.log('3. Sending message with smart routing...');
-    const result = await sdk.sendMessage('+1234567890', 'Hello from WhatsApp SDK!');
+    const result = await sdk.sendMessage('+14155552671', 'Hello from WhatsApp SDK!');
     console.log('Send Result:', result);
     console.log(`Message sent via: ${result.method}`);
     console.log(`Message ID: ${result.messageId}`);
@@ -45,7 +44,7 @@ async function basicExample() {
 
     // 4. Force queue a message
     console.log('4. Force queuing a message...');
-    const queueResult = await sdk.queueMessage('+1234567890', 'This message goes to queue');
+    const queueResult = await sdk.queueMessage('+14155552671', 'This message goes to queue');
     console.log('Queue Result:', queueResult);
     console.log();
 
@@ -65,9 +64,9 @@ async function bulkMessagesExample() {
     console.log('=== Bulk Messages Example ===\n');
 
     const messages = [
-      { number: '+1234567890', message: 'Bulk message 1' },
-      { number: '+0987654321', message: 'Bulk message 2' },
-      { number: '+1122334455', message: 'Bulk message 3' }
+      { number: '+14155552671', message: 'Bulk message 1' },
+      { number: '+442079460958', message: 'Bulk message 2' },
+      { number: '+14155550123', message: 'Bulk message 3' }
     ];
 
     console.log(`Sending ${messages.length} messages...`);
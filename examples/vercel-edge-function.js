@@ -8,7 +8,6 @@ const sdk = new Whaple({
   apiKey: process.env.WHATSAPP_API_KEY,
   firebaseConfig: JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT),
   healthCheckTimeout: 3000,
-  queueThreshold: 5, // Force queue if >5 pending messages
   enableSmartRouting: true
 });
 
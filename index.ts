@@ -3,6 +3,31 @@ export { QueueManager } from './src/QueueManager';
 export { ApiClient } from './src/ApiClient';
 export { HealthChecker } from './src/HealthChecker';
 export { WhatsAppConnection } from './src/WhatsAppConnection';
+export { QueueWorker } from './src/QueueWorker';
+export { FirebaseQueueStore } from './src/FirebaseQueueStore';
+export { MemoryQueueStore } from './src/MemoryQueueStore';
+export { FileQueueStore } from './src/FileQueueStore';
+export { LocalMediaStore } from './src/LocalMediaStore';
+export { TypedEventEmitter } from './src/TypedEventEmitter';
+export { WebhookClient } from './src/WebhookClient';
+export { FirebaseAuthStore, useAuthStateStore } from './src/FirebaseAuthState';
+export { SessionManager } from './src/SessionManager';
+export { SenderPool } from './src/SenderPool';
+export { CircuitBreaker } from './src/CircuitBreaker';
+export { RateLimiter } from './src/RateLimiter';
+export {
+  textMessage,
+  replyMessage,
+  reactionMessage,
+  pollMessage,
+  buttonsMessage,
+  listMessage,
+  locationMessage,
+  contactMessage
+} from './src/MessageContent';
+export { buildVCard } from './src/VCard';
+export { fetchLinkPreview } from './src/LinkPreview';
+export { normalizePhoneNumber } from './src/PhoneNumber';
 export * from './src/types';
 
 // Default export for CommonJS compatibility
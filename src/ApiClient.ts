@@ -1,7 +1,10 @@
 import * as https from 'https';
 import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
 import { URL } from 'url';
-import { SendMessageOptions, ApiResponse } from './types';
+import { SendMessageOptions, ApiResponse, MediaMessage, MessageContent, WhatsAppRegistration } from './types';
+import { RateLimiter } from './RateLimiter';
 
 interface ApiConfig {
   whatsappServerUrl: string;
@@ -62,11 +65,20 @@ interface HttpRequestOptions {
 
 export class ApiClient {
   private config: ApiConfig;
+  private rateLimiter?: RateLimiter;
 
   constructor(config: ApiConfig) {
     this.config = config;
   }
 
+  /**
+   * Pace sendBatch with a shared rate limiter instead of a fixed delay
+   * @param rateLimiter - Limiter shared with the SDK
+   */
+  setRateLimiter(rateLimiter: RateLimiter): void {
+    this.rateLimiter = rateLimiter;
+  }
+
   /**
    * Send message directly to WhatsApp API
    * @param number - Phone number
@@ -88,10 +100,64 @@ export class ApiClient {
     try {
       const response = await this.makeApiRequest('/api/send-message', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': this.config.apiKey
-        },
+        headers: this.buildSendHeaders(options),
+        body: JSON.stringify(payload)
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'API request failed');
+      }
+
+      return {
+        success: true,
+        messageId: response.messageId || response.key?.id || `api-${Date.now()}`,
+        timestamp: response.messageTimestamp || Date.now(),
+        response
+      };
+    } catch (error) {
+      // Keep the HTTP status so the queue worker can classify the failure
+      throw Object.assign(new Error(`API request failed: ${(error as Error).message}`), {
+        statusCode: (error as any).statusCode
+      });
+    }
+  }
+
+  /**
+   * Send a media message through the WhatsApp API.
+   * URLs are forwarded as-is; Buffers and local files are sent base64-encoded.
+   * @param number - Phone number
+   * @param media - Media content and metadata
+   * @param options - Additional options
+   * @returns API response
+   */
+  async sendMedia(
+    number: string,
+    media: MediaMessage,
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    try {
+      const payload: Record<string, any> = {
+        number,
+        type: media.type,
+        mimetype: media.mimetype,
+        caption: media.caption,
+        filename: media.filename,
+        ptt: media.ptt,
+        ...options
+      };
+
+      if (Buffer.isBuffer(media.source)) {
+        payload.data = media.source.toString('base64');
+      } else if (/^https?:\/\//i.test(media.source)) {
+        payload.url = media.source;
+      } else {
+        payload.data = (await fs.promises.readFile(media.source)).toString('base64');
+        payload.filename = payload.filename || path.basename(media.source);
+      }
+
+      const response = await this.makeApiRequest('/api/send-media', {
+        method: 'POST',
+        headers: this.buildSendHeaders(options),
         body: JSON.stringify(payload)
       });
 
@@ -106,10 +172,105 @@ export class ApiClient {
         response
       };
     } catch (error) {
-      throw new Error(`API request failed: ${(error as Error).message}`);
+      // Keep the HTTP status so the queue worker can classify the failure
+      throw Object.assign(new Error(`API request failed: ${(error as Error).message}`), {
+        statusCode: (error as any).statusCode
+      });
     }
   }
 
+  /**
+   * Send structured content (reply, reaction, poll, buttons or list) through the WhatsApp API
+   * @param number - Phone number or JID
+   * @param content - Message content, forwarded as-is
+   * @param options - Additional options
+   * @returns API response
+   */
+  async sendContent(
+    number: string,
+    content: MessageContent,
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    const payload = {
+      number,
+      content,
+      ...options
+    };
+
+    try {
+      const response = await this.makeApiRequest('/api/send-content', {
+        method: 'POST',
+        headers: this.buildSendHeaders(options),
+        body: JSON.stringify(payload)
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'API request failed');
+      }
+
+      return {
+        success: true,
+        messageId: response.messageId || response.key?.id || `api-${Date.now()}`,
+        timestamp: response.messageTimestamp || Date.now(),
+        response
+      };
+    } catch (error) {
+      // Keep the HTTP status so the queue worker can classify the failure
+      throw Object.assign(new Error(`API request failed: ${(error as Error).message}`), {
+        statusCode: (error as any).statusCode
+      });
+    }
+  }
+
+  /**
+   * Ask the server which numbers have a WhatsApp account
+   * @param numbers - E.164 phone numbers
+   * @returns One entry per number, in the same order
+   */
+  async checkNumbers(numbers: string[]): Promise<WhatsAppRegistration[]> {
+    try {
+      const response = await this.makeApiRequest('/api/check-numbers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': this.config.apiKey
+        },
+        body: JSON.stringify({ numbers })
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'API request failed');
+      }
+
+      const checkedAt = Date.now();
+      const results: any[] = response.results || [];
+      return numbers.map(number => {
+        const match = results.find(result => result.number === number);
+        return { number, exists: !!match?.exists, jid: match?.jid, checkedAt };
+      });
+    } catch (error) {
+      throw new Error(`Number check failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Headers for send requests; the idempotency key lets the server drop retried duplicates
+   * @param options - Send options
+   * @returns Request headers
+   */
+  private buildSendHeaders(options: SendMessageOptions): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-API-Key': this.config.apiKey
+    };
+
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    return headers;
+  }
+
   /**
    * Make HTTP/HTTPS request to WhatsApp API
    * @param endpoint - API endpoint path
@@ -144,14 +305,18 @@ export class ApiClient {
             if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
               resolve(parsedResponse);
             } else {
-              reject(new Error(parsedResponse.error || `HTTP ${response.statusCode}`));
+              reject(Object.assign(new Error(parsedResponse.error || `HTTP ${response.statusCode}`), {
+                statusCode: response.statusCode
+              }));
             }
           } catch (parseError) {
             if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
               // Non-JSON success response
               resolve({ success: true, data: responseData });
             } else {
-              reject(new Error(`Invalid JSON response: ${(parseError as Error).message}`));
+              reject(Object.assign(new Error(`Invalid JSON response: ${(parseError as Error).message}`), {
+                statusCode: response.statusCode
+              }));
             }
           }
         });
@@ -340,6 +505,9 @@ export class ApiClient {
       const msg = messages[i];
       
       try {
+        if (this.rateLimiter) {
+          await this.rateLimiter.acquire(msg.number);
+        }
         const result = await this.sendMessage(msg.number, msg.message, msg.options);
         results.push({
           index: i,
@@ -357,8 +525,8 @@ export class ApiClient {
         });
       }
 
-      // Add delay between messages (except for the last one)
-      if (i < messages.length - 1) {
+      // Add delay between messages (except for the last one); the rate limiter paces batches itself
+      if (i < messages.length - 1 && !this.rateLimiter) {
         await this.delay(delay);
       }
     }
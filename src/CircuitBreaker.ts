@@ -0,0 +1,171 @@
+import { TypedEventEmitter } from './TypedEventEmitter';
+import {
+  CircuitBreakerConfig,
+  CircuitBreakerEvents,
+  CircuitBreakerStatus,
+  CircuitState
+} from './types';
+
+/**
+ * Tracks API call outcomes and stops calls to a failing server.
+ * Closed: calls go through and their outcomes are recorded.
+ * Open: calls are refused until openDuration has passed.
+ * Half-open: one trial call at a time; its outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker extends TypedEventEmitter<CircuitBreakerEvents> {
+  private config!: Required<CircuitBreakerConfig>;
+  private state: CircuitState = 'closed';
+  /** Most recent outcomes, true for a failure */
+  private outcomes: boolean[] = [];
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastFailure?: string;
+  private lastStateChange = Date.now();
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    super();
+    this.configure(config);
+  }
+
+  /**
+   * Change the thresholds; the current state and recorded outcomes are kept
+   * @param config - New thresholds
+   */
+  configure(config: CircuitBreakerConfig = {}): void {
+    this.config = {
+      failureThreshold: 0.5,
+      minimumCalls: 5,
+      windowSize: 20,
+      openDuration: 30000,
+      ...config
+    };
+    this.outcomes = this.outcomes.slice(-this.config.windowSize);
+  }
+
+  /**
+   * Ask to make a call. In the half-open state only one trial call is allowed at a time;
+   * its outcome must be reported with recordSuccess, recordFailure or release.
+   * @returns True if the call may go to the server
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt! < this.config.openDuration) {
+        return false;
+      }
+      this.transition('half-open', 'open_duration_elapsed');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * Give back a call that was allowed but never reached the server
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.trialInFlight = false;
+      this.outcomes = [];
+      this.transition('closed', 'trial_succeeded');
+      return;
+    }
+    this.record(false);
+  }
+
+  /**
+   * @param reason - Error message, kept as lastFailure
+   */
+  recordFailure(reason: string): void {
+    this.lastFailure = reason;
+
+    if (this.state === 'half-open') {
+      this.trialInFlight = false;
+      this.open('trial_failed');
+      return;
+    }
+    if (this.state === 'open') {
+      return;
+    }
+
+    this.record(true);
+    if (this.outcomes.length >= this.config.minimumCalls && this.failureRate() >= this.config.failureThreshold) {
+      this.open('failure_rate');
+    }
+  }
+
+  /**
+   * Apply a health check result: an unhealthy server opens the circuit at once,
+   * a healthy one lets an open circuit try a call without waiting out openDuration
+   * @param isHealthy - Latest health result
+   */
+  recordHealth(isHealthy: boolean): void {
+    if (!isHealthy) {
+      if (this.state !== 'open') {
+        this.lastFailure = 'Health check failed';
+        this.trialInFlight = false;
+        this.open('server_unhealthy');
+      }
+    } else if (this.state === 'open') {
+      this.transition('half-open', 'server_healthy');
+    }
+  }
+
+  /**
+   * @returns Current state; an open circuit whose openDuration has passed reports half-open
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.config.openDuration) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const state = this.getState();
+    return {
+      state,
+      failureRate: this.failureRate(),
+      calls: this.outcomes.length,
+      failures: this.outcomes.filter(Boolean).length,
+      openedAt: this.openedAt,
+      nextAttemptAt: state === 'open' ? this.openedAt! + this.config.openDuration : null,
+      ...(this.lastFailure ? { lastFailure: this.lastFailure } : {}),
+      lastStateChange: this.lastStateChange
+    };
+  }
+
+  private record(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.config.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private failureRate(): number {
+    return this.outcomes.length === 0 ? 0 : this.outcomes.filter(Boolean).length / this.outcomes.length;
+  }
+
+  private open(reason: string): void {
+    this.openedAt = Date.now();
+    this.transition('open', reason);
+  }
+
+  private transition(state: CircuitState, reason: string): void {
+    const previous = this.state;
+    this.state = state;
+    this.lastStateChange = Date.now();
+    if (state === 'closed') {
+      this.openedAt = null;
+    }
+    this.emit('circuit:changed', { state, previous, reason, timestamp: this.lastStateChange });
+  }
+}
\ No newline at end of file
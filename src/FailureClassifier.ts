@@ -0,0 +1,44 @@
+import { FailureType } from './types';
+
+/**
+ * Failure types retried by default; the rest go straight to the dead-letter queue
+ */
+export const DEFAULT_RETRYABLE_FAILURES: FailureType[] = ['network', 'rate_limited', 'unknown'];
+
+/**
+ * Delays before the 2nd, 3rd, ... attempt; the last entry repeats
+ */
+export const DEFAULT_BACKOFF_SCHEDULE = [5000, 30000, 120000];
+
+const MESSAGE_PATTERNS: Array<[FailureType, RegExp]> = [
+  ['not_on_whatsapp', /not (registered )?on whatsapp|not a whatsapp (user|account)|not-authorized-for-jid|no whatsapp account/i],
+  ['invalid_number', /invalid (phone )?number|invalid jid|bad jid|malformed (number|jid)|phone number is required/i],
+  ['rate_limited', /rate.?(limit|overlimit)|too many requests/i],
+  ['auth', /unauthori[sz]ed|forbidden|invalid api key|logged out|not authenticated|connection failure/i],
+  ['network', /timeout|timed out|network error|econn(reset|refused|aborted)|enotfound|eai_again|socket hang up|connection (closed|lost)|not connected|stream errored/i]
+];
+
+/**
+ * Classify a send failure from its HTTP/Boom status code or its message
+ * @param error - Error thrown by the sender, or its message
+ * @returns Failure type
+ */
+export function classifyFailure(error: unknown): FailureType {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const statusCode = (error as any)?.statusCode ??
+    (error as any)?.output?.statusCode ??
+    Number(/\bHTTP (\d{3})\b/.exec(message)?.[1]);
+
+  // Message text is more specific than the status code, e.g. a 400 for an unregistered number
+  for (const [type, pattern] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) {
+      return type;
+    }
+  }
+
+  if (statusCode === 429) return 'rate_limited';
+  if (statusCode === 401 || statusCode === 403) return 'auth';
+  if (statusCode >= 500) return 'network';
+
+  return 'unknown';
+}
\ No newline at end of file
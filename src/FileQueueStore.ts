@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryQueueStore } from './MemoryQueueStore';
+
+/**
+ * Queue store persisted to a local JSON file so queued messages survive restarts
+ */
+export class FileQueueStore extends MemoryQueueStore {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = 'whaple-queue.json') {
+    super(FileQueueStore.load(filePath));
+    this.filePath = filePath;
+  }
+
+  private static load(filePath: string): Record<string, any> {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Failed to load queue file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  protected async persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.data);
+
+    // Serialize writes and swap the file atomically so a crash never leaves it half-written
+    this.writeChain = this.writeChain.catch(() => undefined).then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(path.resolve(this.filePath)), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot);
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+
+    await this.writeChain;
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import * as admin from 'firebase-admin';
+import {
+  AuthenticationState,
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  SignalDataTypeMap
+} from '@whiskeysockets/baileys';
+import { AuthStateStore } from './types';
+
+interface StoredAuthState {
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+  clearState: () => Promise<void>;
+}
+
+/**
+ * Firebase Realtime Database keys cannot contain . $ # [ ] or /,
+ * while Baileys key IDs routinely contain dots and colons.
+ */
+function encodeKeySegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/\./g, '%2E');
+}
+
+/**
+ * Auth state store backed by Firebase Realtime Database.
+ * Values are stored as BufferJSON strings so Buffers and Uint8Arrays survive the round trip.
+ */
+export class FirebaseAuthStore implements AuthStateStore {
+  private authRef: admin.database.Reference;
+
+  constructor(database: admin.database.Database, path: string = 'whatsapp_auth') {
+    this.authRef = database.ref(path);
+  }
+
+  async read(key: string): Promise<string | null> {
+    const snapshot = await this.authRef.child(this.toPath(key)).once('value');
+    return snapshot.exists() ? snapshot.val() : null;
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    await this.authRef.child(this.toPath(key)).set(value);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.authRef.child(this.toPath(key)).remove();
+  }
+
+  async clear(): Promise<void> {
+    await this.authRef.remove();
+  }
+
+  private toPath(key: string): string {
+    return key.split('/').map(encodeKeySegment).join('/');
+  }
+}
+
+/**
+ * Build a Baileys authentication state on top of any AuthStateStore
+ * @param store - Persistence backend
+ * @returns Auth state with save and clear helpers
+ */
+export async function useAuthStateStore(store: AuthStateStore): Promise<StoredAuthState> {
+  const writeData = (key: string, data: any): Promise<void> => {
+    return store.write(key, JSON.stringify(data, BufferJSON.replacer));
+  };
+
+  // Only a missing record reads as null; a read error must not look like a fresh session,
+  // or the next saveCreds would overwrite the stored one
+  const readData = async (key: string): Promise<any> => {
+    const raw = await store.read(key);
+    return raw ? JSON.parse(raw, BufferJSON.reviver) : null;
+  };
+
+  const creds = (await readData('creds')) || initAuthCreds();
+
+  return {
+    state: {
+      creds,
+      keys: {
+        get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+          const data: { [id: string]: SignalDataTypeMap[T] } = {};
+          await Promise.all(ids.map(async (id) => {
+            let value = await readData(`keys/${type}/${id}`);
+            if (type === 'app-state-sync-key' && value) {
+              value = proto.Message.AppStateSyncKeyData.fromObject(value);
+            }
+            data[id] = value;
+          }));
+          return data;
+        },
+        set: async (data: any) => {
+          const tasks: Promise<void>[] = [];
+          for (const category in data) {
+            for (const id in data[category]) {
+              const value = data[category][id];
+              const key = `keys/${category}/${id}`;
+              tasks.push(value ? writeData(key, value) : store.remove(key));
+            }
+          }
+          await Promise.all(tasks);
+        }
+      }
+    },
+    saveCreds: () => writeData('creds', creds),
+    clearState: async () => {
+      if (store.clear) {
+        await store.clear();
+      }
+    }
+  };
+}
\ No newline at end of file
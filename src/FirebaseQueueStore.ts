@@ -0,0 +1,64 @@
+import * as admin from 'firebase-admin';
+import { QueueListOptions, QueueStore, QueueTransactionResult } from './types';
+
+/**
+ * Queue store backed by Firebase Realtime Database
+ */
+export class FirebaseQueueStore implements QueueStore {
+  private queueRef: admin.database.Reference;
+
+  constructor(database: admin.database.Database, rootPath: string = 'message_queue') {
+    this.queueRef = database.ref(rootPath);
+  }
+
+  async read(path: string): Promise<any> {
+    const snapshot = await this.queueRef.child(path).once('value');
+    return snapshot.exists() ? snapshot.val() : null;
+  }
+
+  async list(path: string, options: QueueListOptions = {}): Promise<Record<string, any>> {
+    let query: admin.database.Query = this.queueRef.child(path);
+
+    if (options.orderBy) {
+      query = query.orderByChild(options.orderBy);
+    }
+    if (options.endAt !== undefined) {
+      query = query.endAt(options.endAt);
+    }
+    if (options.limitToFirst) {
+      query = query.limitToFirst(options.limitToFirst);
+    }
+    if (options.limitToLast) {
+      query = query.limitToLast(options.limitToLast);
+    }
+
+    const snapshot = await query.once('value');
+    return snapshot.exists() ? snapshot.val() : {};
+  }
+
+  async write(path: string, value: any): Promise<void> {
+    await this.queueRef.child(path).set(value);
+  }
+
+  async update(updates: Record<string, any>): Promise<void> {
+    await this.queueRef.update(updates);
+  }
+
+  async transaction(path: string, updateFn: (current: any) => any): Promise<QueueTransactionResult> {
+    const result = await this.queueRef.child(path).transaction(updateFn);
+    return {
+      committed: result.committed,
+      value: result.snapshot.exists() ? result.snapshot.val() : null
+    };
+  }
+
+  subscribe(path: string, callback: (value: any) => void): () => void {
+    const ref = this.queueRef.child(path);
+    const handler = (snapshot: admin.database.DataSnapshot) => {
+      callback(snapshot.exists() ? snapshot.val() : null);
+    };
+
+    ref.on('value', handler);
+    return () => ref.off('value', handler);
+  }
+}
\ No newline at end of file
@@ -1,7 +1,8 @@
 import * as https from 'https';
 import * as http from 'http';
 import { URL } from 'url';
-import { ServerStatus, HealthCheckResult } from './types';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { ServerStatus, HealthCheckResult, HealthCheckerEvents } from './types';
 
 interface HealthConfig {
   whatsappServerUrl: string;
@@ -30,11 +31,13 @@ interface ApiStatusResponse {
   uptime?: number;
 }
 
-export class HealthChecker {
+export class HealthChecker extends TypedEventEmitter<HealthCheckerEvents> {
   private config: HealthConfig;
   private cache: HealthCache;
+  private lastKnownHealth: boolean | null = null;
 
   constructor(config: HealthConfig) {
+    super();
     this.config = config;
     this.cache = {
       lastCheck: null,
@@ -59,12 +62,14 @@ export class HealthChecker {
       // Update cache
       this.cache.lastCheck = Date.now();
       this.cache.lastResult = healthResult;
+      this.recordHealth(healthResult);
       
       return healthResult;
     } catch (error) {
       // Cache negative result too
       this.cache.lastCheck = Date.now();
       this.cache.lastResult = false;
+      this.recordHealth(false);
       
       if (this.config.debug) {
         console.error('Health check failed:', error);
@@ -85,6 +90,8 @@ export class HealthChecker {
         this.checkApiStatus().catch(() => null)
       ]);
 
+      this.recordHealth(healthCheck);
+
       return {
         isHealthy: healthCheck,
         responseTime: this.getLastResponseTime(),
@@ -101,6 +108,19 @@ export class HealthChecker {
     }
   }
 
+  /**
+   * Emit health:changed when the observed health flips
+   * @param isHealthy - Latest health result
+   */
+  private recordHealth(isHealthy: boolean): void {
+    const previous = this.lastKnownHealth;
+    this.lastKnownHealth = isHealthy;
+
+    if (previous !== isHealthy) {
+      this.emit('health:changed', { isHealthy, previous, timestamp: Date.now() });
+    }
+  }
+
   /**
    * Check basic server health endpoint
    * @returns True if health check passes
@@ -0,0 +1,128 @@
+import * as https from 'https';
+import * as http from 'http';
+import { URL } from 'url';
+import { LinkPreview } from './types';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/i;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+
+/**
+ * @param text - Message text
+ * @returns The first http(s) URL in the text, without trailing punctuation
+ */
+export function findFirstUrl(text: string): string | null {
+  const match = URL_PATTERN.exec(text || '');
+  return match ? match[0].replace(/[.,;:!?)\]]+$/, '') : null;
+}
+
+/**
+ * Read a preview from a page's Open Graph tags, falling back to <title> and the meta description
+ * @param html - Page HTML
+ * @param url - Page URL
+ * @param matchedText - URL as it appears in the message
+ * @returns Preview, or null if the page has no title
+ */
+export function parseLinkPreview(html: string, url: string, matchedText: string = url): LinkPreview | null {
+  const meta = (name: string): string | undefined => {
+    for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+      const key = attribute(tag, 'property') || attribute(tag, 'name');
+      if (key?.toLowerCase() === name) {
+        return attribute(tag, 'content');
+      }
+    }
+    return undefined;
+  };
+
+  const title = meta('og:title') || meta('twitter:title') || /<title[^>]*>([^<]*)<\/title>/i.exec(html)?.[1];
+  if (!title?.trim()) {
+    return null;
+  }
+
+  const description = meta('og:description') || meta('twitter:description') || meta('description');
+  return {
+    url: meta('og:url') || url,
+    matchedText,
+    title: decodeEntities(title.trim()),
+    ...(description?.trim() ? { description: decodeEntities(description.trim()) } : {})
+  };
+}
+
+/**
+ * Fetch a preview for the first URL in a message. Failures resolve to null so the
+ * message can still be sent without a preview.
+ * @param text - Message text
+ * @param timeout - Request timeout in milliseconds
+ */
+export async function fetchLinkPreview(text: string, timeout: number = 5000): Promise<LinkPreview | null> {
+  const matchedText = findFirstUrl(text);
+  if (!matchedText) {
+    return null;
+  }
+
+  try {
+    const { html, url } = await fetchHtml(matchedText, timeout, MAX_REDIRECTS);
+    return parseLinkPreview(html, url, matchedText);
+  } catch {
+    return null;
+  }
+}
+
+function fetchHtml(target: string, timeout: number, redirects: number): Promise<{ html: string; url: string }> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(target);
+    const isHttps = url.protocol === 'https:';
+
+    const request = (isHttps ? https : http).get(url, {
+      headers: { 'User-Agent': 'Whaple-SDK/1.0.0 (link preview)', Accept: 'text/html' },
+      timeout
+    });
+
+    request.on('response', (response) => {
+      const status = response.statusCode || 0;
+      if (status >= 300 && status < 400 && response.headers.location && redirects > 0) {
+        response.resume();
+        fetchHtml(new URL(response.headers.location, url).toString(), timeout, redirects - 1).then(resolve, reject);
+        return;
+      }
+      if (status < 200 || status >= 300 || !/html/i.test(String(response.headers['content-type'] || ''))) {
+        response.resume();
+        reject(new Error(`No HTML at ${target} (HTTP ${status})`));
+        return;
+      }
+
+      let size = 0;
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        chunks.push(chunk);
+        // The head is all we need; stop reading large pages
+        if (size >= MAX_HTML_BYTES) {
+          response.destroy();
+          resolve({ html: Buffer.concat(chunks).toString('utf8'), url: url.toString() });
+        }
+      });
+      response.on('end', () => resolve({ html: Buffer.concat(chunks).toString('utf8'), url: url.toString() }));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Link preview timeout after ${timeout}ms`)));
+    request.on('error', reject);
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(tag);
+  return match ? (match[2] ?? match[3]) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { MediaStore } from './types';
+
+/**
+ * Stores queued media Buffers on local disk so the queue only holds a reference
+ */
+export class LocalMediaStore implements MediaStore {
+  private directory: string;
+
+  constructor(directory: string = 'whaple-media') {
+    this.directory = directory;
+  }
+
+  async save(data: Buffer, filename?: string): Promise<string> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const extension = filename ? path.extname(filename) : '';
+    const ref = `${randomUUID()}${extension}`;
+    await fs.promises.writeFile(path.join(this.directory, ref), data);
+    return ref;
+  }
+
+  async load(ref: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(ref));
+  }
+
+  async remove(ref: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(ref));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  private resolve(ref: string): string {
+    // References are generated by save(); never let one escape the media directory
+    return path.join(this.directory, path.basename(ref));
+  }
+}
\ No newline at end of file
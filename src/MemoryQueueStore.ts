@@ -0,0 +1,180 @@
+import { QueueListOptions, QueueStore, QueueTransactionResult } from './types';
+
+/**
+ * In-process queue store, useful for local development, tests and
+ * direct mode deployments without Firebase credentials
+ */
+export class MemoryQueueStore implements QueueStore {
+  protected data: Record<string, any>;
+  private listeners = new Map<string, Set<(value: any) => void>>();
+
+  constructor(initialData: Record<string, any> = {}) {
+    this.data = initialData;
+  }
+
+  async read(path: string): Promise<any> {
+    return this.clone(this.getNode(path));
+  }
+
+  async list(path: string, options: QueueListOptions = {}): Promise<Record<string, any>> {
+    const node = this.getNode(path);
+    if (!node || typeof node !== 'object') {
+      return {};
+    }
+
+    let keys = Object.keys(node).sort();
+    if (options.orderBy) {
+      const field = options.orderBy;
+      keys = keys.sort((a, b) => (node[a]?.[field] ?? 0) - (node[b]?.[field] ?? 0));
+      if (options.endAt !== undefined) {
+        const endAt = options.endAt;
+        keys = keys.filter(key => (node[key]?.[field] ?? 0) <= endAt);
+      }
+    }
+    if (options.limitToFirst) {
+      keys = keys.slice(0, options.limitToFirst);
+    }
+    if (options.limitToLast) {
+      keys = keys.slice(-options.limitToLast);
+    }
+
+    const result: Record<string, any> = {};
+    for (const key of keys) {
+      result[key] = this.clone(node[key]);
+    }
+    return result;
+  }
+
+  async write(path: string, value: any): Promise<void> {
+    this.setNode(path, value);
+    this.notify([path]);
+    await this.persist();
+  }
+
+  async update(updates: Record<string, any>): Promise<void> {
+    for (const [path, value] of Object.entries(updates)) {
+      this.setNode(path, value);
+    }
+    this.notify(Object.keys(updates));
+    await this.persist();
+  }
+
+  async transaction(path: string, updateFn: (current: any) => any): Promise<QueueTransactionResult> {
+    const current = this.clone(this.getNode(path));
+    const next = updateFn(current);
+
+    if (next === undefined) {
+      return { committed: false, value: current };
+    }
+
+    this.setNode(path, next);
+    this.notify([path]);
+    await this.persist();
+    return { committed: true, value: this.clone(next) };
+  }
+
+  subscribe(path: string, callback: (value: any) => void): () => void {
+    const key = this.splitPath(path).join('/');
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(callback);
+
+    // Like Firebase, deliver the current value immediately
+    callback(this.clone(this.getNode(key)));
+
+    return () => {
+      const callbacks = this.listeners.get(key);
+      callbacks?.delete(callback);
+      if (callbacks && callbacks.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Call listeners whose path is an ancestor or descendant of a changed path
+   */
+  private notify(changedPaths: string[]): void {
+    const changed = changedPaths.map(path => this.splitPath(path).join('/'));
+
+    for (const [key, callbacks] of this.listeners) {
+      const affected = changed.some(path =>
+        path === key || key === '' || path === '' ||
+        path.startsWith(`${key}/`) || key.startsWith(`${path}/`)
+      );
+      if (!affected) {
+        continue;
+      }
+
+      const value = this.getNode(key);
+      for (const callback of [...callbacks]) {
+        callback(this.clone(value));
+      }
+    }
+  }
+
+  /**
+   * Hook for subclasses that persist the tree after each mutation
+   */
+  protected async persist(): Promise<void> {
+    // Nothing to persist for the in-memory store
+  }
+
+  private splitPath(path: string): string[] {
+    return path.split('/').filter(Boolean);
+  }
+
+  private getNode(path: string): any {
+    let node: any = this.data;
+    for (const segment of this.splitPath(path)) {
+      if (node === null || typeof node !== 'object' || !(segment in node)) {
+        return null;
+      }
+      node = node[segment];
+    }
+    return node;
+  }
+
+  private setNode(path: string, value: any): void {
+    const segments = this.splitPath(path);
+    const last = segments.pop();
+
+    if (!last) {
+      this.data = value ?? {};
+      return;
+    }
+
+    const parents: Array<[Record<string, any>, string]> = [];
+    let node: Record<string, any> = this.data;
+
+    for (const segment of segments) {
+      if (node[segment] === null || typeof node[segment] !== 'object') {
+        if (value === null || value === undefined) {
+          return;
+        }
+        node[segment] = {};
+      }
+      parents.push([node, segment]);
+      node = node[segment];
+    }
+
+    if (value === null || value === undefined) {
+      delete node[last];
+      // Prune empty parents, as Firebase does
+      for (let i = parents.length - 1; i >= 0; i--) {
+        const [parent, key] = parents[i];
+        if (Object.keys(parent[key]).length > 0) {
+          break;
+        }
+        delete parent[key];
+      }
+    } else {
+      node[last] = this.clone(value);
+    }
+  }
+
+  private clone<T>(value: T): T {
+    return value === null || value === undefined ? (null as any) : JSON.parse(JSON.stringify(value));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,264 @@
+import {
+  ButtonsContent,
+  ContactContent,
+  HistoryMessage,
+  ListContent,
+  ListSection,
+  LocationContent,
+  MessageButton,
+  MessageContent,
+  MessageReference,
+  PollContent,
+  ReactionContent,
+  TextContent,
+  ValidationError,
+  VCardFields
+} from './types';
+import { buildVCard, parseVCardName } from './VCard';
+
+const CONTENT_TYPES: Array<MessageContent['type']> = ['text', 'reaction', 'poll', 'buttons', 'list', 'location', 'contact'];
+
+/**
+ * @param text - Message text
+ * @param quoted - Message to reply to
+ */
+export function textMessage(text: string, quoted?: MessageReference | HistoryMessage): TextContent {
+  return { type: 'text', text, ...(quoted ? { quoted: toMessageReference(quoted) } : {}) };
+}
+
+/**
+ * Quoted reply to an earlier message
+ * @param message - Message being replied to
+ * @param text - Reply text
+ */
+export function replyMessage(message: MessageReference | HistoryMessage, text: string): TextContent {
+  return textMessage(text, message);
+}
+
+/**
+ * @param message - Message to react to
+ * @param emoji - A single emoji, or '' to remove the reaction
+ */
+export function reactionMessage(message: MessageReference | HistoryMessage, emoji: string): ReactionContent {
+  return { type: 'reaction', emoji, message: toMessageReference(message) };
+}
+
+/**
+ * @param name - Poll question
+ * @param options - 2 to 12 distinct answers
+ * @param selectableCount - Answers a voter may pick (0 allows any number)
+ */
+export function pollMessage(name: string, options: string[], selectableCount: number = 1): PollContent {
+  return { type: 'poll', name, options, selectableCount };
+}
+
+/**
+ * @param text - Message body
+ * @param buttons - 1 to 3 buttons
+ * @param footer - Small text under the body
+ */
+export function buttonsMessage(text: string, buttons: MessageButton[], footer?: string): ButtonsContent {
+  return { type: 'buttons', text, buttons, ...(footer ? { footer } : {}) };
+}
+
+/**
+ * @param text - Message body
+ * @param buttonText - Label of the button that opens the list
+ * @param sections - Sections of selectable rows
+ * @param extras - Optional title and footer
+ */
+export function listMessage(
+  text: string,
+  buttonText: string,
+  sections: ListSection[],
+  extras: { title?: string; footer?: string } = {}
+): ListContent {
+  return { type: 'list', text, buttonText, sections, ...extras };
+}
+
+/**
+ * @param location - Coordinates in degrees, with an optional place name and address
+ */
+export function locationMessage(location: { lat: number; lng: number; name?: string; address?: string }): LocationContent {
+  const { lat, lng, name, address } = location;
+  return { type: 'location', lat, lng, ...(name ? { name } : {}), ...(address ? { address } : {}) };
+}
+
+/**
+ * @param contact - vCard text, or fields to build one from
+ * @param defaultCountryCode - Calling code for phone numbers in national format
+ */
+export function contactMessage(contact: string | VCardFields, defaultCountryCode?: string): ContactContent {
+  const vcard = typeof contact === 'string' ? contact.trim() : buildVCard(contact, defaultCountryCode);
+  return { type: 'contact', displayName: parseVCardName(vcard), vcard };
+}
+
+/**
+ * Reference an inbound or stored message for replies and reactions
+ * @param message - Reference or message from onMessage/getMessageHistory
+ */
+export function toMessageReference(message: MessageReference | HistoryMessage): MessageReference {
+  if ('senderJid' in message) {
+    const reference: MessageReference = { id: message.id, chatId: message.chatId, fromMe: message.fromMe };
+    if (message.isGroup && !message.fromMe) reference.participant = message.senderJid;
+    if (message.text) reference.text = message.text;
+    return reference;
+  }
+  return message;
+}
+
+/**
+ * @param value - Anything passed where a message is expected
+ * @returns True for a MessageContent object (as opposed to text or media)
+ */
+export function isMessageContent(value: unknown): value is MessageContent {
+  return !!value && typeof value === 'object' && CONTENT_TYPES.includes((value as any).type);
+}
+
+/**
+ * Check content before it is sent or queued
+ * @param content - Message content
+ */
+export function validateMessageContent(content: MessageContent): void {
+  if (!isMessageContent(content)) {
+    throw new ValidationError(`Message content type must be one of: ${CONTENT_TYPES.join(', ')}`);
+  }
+  if ('quoted' in content && content.quoted) {
+    validateReference(content.quoted, 'Quoted message');
+  }
+
+  switch (content.type) {
+    case 'text':
+      requireText(content.text, 'Message text');
+      break;
+    case 'reaction':
+      validateReference(content.message, 'Reaction target');
+      if (typeof content.emoji !== 'string' || [...content.emoji].length > 8) {
+        throw new ValidationError('Reaction must be a single emoji or an empty string');
+      }
+      break;
+    case 'poll': {
+      requireText(content.name, 'Poll name');
+      const options = content.options || [];
+      if (options.length < 2 || options.length > 12) {
+        throw new ValidationError('A poll needs 2 to 12 options');
+      }
+      options.forEach(option => requireText(option, 'Poll option'));
+      if (new Set(options).size !== options.length) {
+        throw new ValidationError('Poll options must be distinct');
+      }
+      const selectable = content.selectableCount ?? 1;
+      if (!Number.isInteger(selectable) || selectable < 0 || selectable > options.length) {
+        throw new ValidationError(`Poll selectableCount must be between 0 and ${options.length}`);
+      }
+      break;
+    }
+    case 'buttons': {
+      requireText(content.text, 'Message text');
+      const buttons = content.buttons || [];
+      if (buttons.length < 1 || buttons.length > 3) {
+        throw new ValidationError('A buttons message needs 1 to 3 buttons');
+      }
+      buttons.forEach(button => {
+        requireText(button?.id, 'Button id');
+        requireText(button?.text, 'Button text');
+      });
+      requireDistinctIds(buttons.map(button => button.id), 'Button');
+      break;
+    }
+    case 'list': {
+      requireText(content.text, 'Message text');
+      requireText(content.buttonText, 'List buttonText');
+      const rows = (content.sections || []).flatMap(section => {
+        requireText(section?.title, 'List section title');
+        return section.rows || [];
+      });
+      if (rows.length === 0) {
+        throw new ValidationError('A list needs at least one row');
+      }
+      rows.forEach(row => {
+        requireText(row?.id, 'List row id');
+        requireText(row?.title, 'List row title');
+      });
+      requireDistinctIds(rows.map(row => row.id), 'List row');
+      break;
+    }
+    case 'location':
+      requireCoordinate(content.lat, 90, 'Latitude');
+      requireCoordinate(content.lng, 180, 'Longitude');
+      break;
+    case 'contact':
+      requireText(content.displayName, 'Contact displayName');
+      parseVCardName(content.vcard);
+      break;
+  }
+}
+
+/**
+ * Plain-text summary stored as the queued message's `message`, e.g. for status and exports
+ * @param content - Message content
+ */
+export function describeMessageContent(content: MessageContent): string {
+  switch (content.type) {
+    case 'reaction':
+      return content.emoji ? `Reacted ${content.emoji}` : 'Removed reaction';
+    case 'poll':
+      return `Poll: ${content.name}`;
+    case 'location':
+      return `Location: ${content.name || `${content.lat}, ${content.lng}`}`;
+    case 'contact':
+      return `Contact: ${content.displayName}`;
+    default:
+      return content.text;
+  }
+}
+
+/**
+ * Numbered text version of a buttons or list message, for transports that cannot send menus
+ * @param content - Buttons or list content
+ */
+export function renderMenuText(content: ButtonsContent | ListContent): string {
+  const lines: string[] = [];
+  let n = 0;
+
+  if (content.type === 'buttons') {
+    lines.push(content.text, '');
+    content.buttons.forEach(button => lines.push(`${++n}. ${button.text}`));
+  } else {
+    if (content.title) lines.push(`*${content.title}*`);
+    lines.push(content.text);
+    for (const section of content.sections) {
+      lines.push('', `*${section.title}*`);
+      section.rows.forEach(row => lines.push(`${++n}. ${row.title}${row.description ? ` - ${row.description}` : ''}`));
+    }
+  }
+
+  if (content.footer) {
+    lines.push('', `_${content.footer}_`);
+  }
+  return lines.join('\n');
+}
+
+function validateReference(reference: MessageReference, label: string): void {
+  if (!reference || typeof reference.id !== 'string' || reference.id.length === 0) {
+    throw new ValidationError(`${label} needs the message id`);
+  }
+}
+
+function requireText(value: unknown, label: string): void {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new ValidationError(`${label} is required`);
+  }
+}
+
+function requireCoordinate(value: unknown, limit: number, label: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || Math.abs(value) > limit) {
+    throw new ValidationError(`${label} must be a number between -${limit} and ${limit}`);
+  }
+}
+
+function requireDistinctIds(ids: string[], label: string): void {
+  if (new Set(ids).size !== ids.length) {
+    throw new ValidationError(`${label} ids must be distinct`);
+  }
+}
\ No newline at end of file
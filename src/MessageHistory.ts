@@ -0,0 +1,124 @@
+import {
+  HistoryMessage,
+  MessageHistoryPage,
+  MessageHistoryQuery,
+  QueueStore,
+  ValidationError
+} from './types';
+
+/**
+ * Firebase keys cannot contain . $ # [ ] or /, and JIDs always contain a dot
+ */
+function encodeChatKey(chatId: string): string {
+  return encodeURIComponent(chatId).replace(/\./g, '%2E');
+}
+
+interface HistoryCursor {
+  timestamp: number;
+  /** Absent for a plain timestamp, which excludes every message at that time */
+  id?: string;
+}
+
+function parseCursor(before: string | number | undefined): HistoryCursor | undefined {
+  if (before === undefined || before === '') {
+    return undefined;
+  }
+  if (typeof before === 'number') {
+    return { timestamp: before };
+  }
+
+  const separator = before.indexOf(':');
+  const timestamp = Number(separator === -1 ? before : before.slice(0, separator));
+  if (!Number.isFinite(timestamp)) {
+    throw new ValidationError(`Invalid history cursor: ${before}`, 'HISTORY_INVALID_CURSOR');
+  }
+  return separator === -1 ? { timestamp } : { timestamp, id: before.slice(separator + 1) };
+}
+
+// Same order as the store: by timestamp, then by ID (the record key)
+function compareMessages(a: HistoryMessage, b: HistoryMessage): number {
+  return a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function isBefore(message: HistoryMessage, cursor: HistoryCursor): boolean {
+  if (message.timestamp !== cursor.timestamp) {
+    return message.timestamp < cursor.timestamp;
+  }
+  return cursor.id !== undefined && message.id < cursor.id;
+}
+
+/**
+ * Records sent and received messages per chat and serves paginated history.
+ * Persistence goes through any QueueStore (memory, file, Firebase or custom).
+ */
+export class MessageHistory {
+  private store: QueueStore;
+  private rootPath: string;
+
+  constructor(store: QueueStore, rootPath: string = 'history') {
+    this.store = store;
+    this.rootPath = rootPath;
+  }
+
+  /**
+   * Save messages, replacing any earlier copy with the same ID
+   * @param messages - Messages to record
+   */
+  async record(messages: HistoryMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const updates: Record<string, any> = {};
+    for (const message of messages) {
+      // Strip undefined fields, which Firebase rejects
+      updates[`${this.chatPath(message.chatId)}/${message.id}`] = JSON.parse(JSON.stringify(message));
+    }
+
+    await this.store.update(updates);
+  }
+
+  /**
+   * Get a page of a chat's history, oldest first
+   * @param chatId - Chat JID
+   * @param query - Page size and cursor
+   * @returns Messages plus the cursor for the previous page
+   */
+  async getHistory(chatId: string, query: MessageHistoryQuery = {}): Promise<MessageHistoryPage> {
+    const limit = query.limit || 20;
+    const cursor = parseCursor(query.before);
+
+    // Timestamps have seconds resolution, so the cursor's timestamp is read inclusively and
+    // messages at or after the cursor are dropped by ID. One extra message tells whether an
+    // earlier page exists.
+    let fetchCount = limit + 1;
+    let sorted: HistoryMessage[];
+    for (;;) {
+      const records = Object.values(await this.store.list(this.chatPath(chatId), {
+        orderBy: 'timestamp',
+        endAt: cursor?.timestamp,
+        limitToLast: fetchCount
+      })) as HistoryMessage[];
+
+      sorted = records.filter(message => !cursor || isBefore(message, cursor)).sort(compareMessages);
+      if (sorted.length > limit || records.length < fetchCount) {
+        break;
+      }
+      fetchCount += records.length - sorted.length;
+    }
+
+    const hasMore = sorted.length > limit;
+    const messages = hasMore ? sorted.slice(sorted.length - limit) : sorted;
+
+    return {
+      chatId,
+      messages,
+      hasMore,
+      nextCursor: hasMore && messages.length > 0 ? `${messages[0].timestamp}:${messages[0].id}` : undefined
+    };
+  }
+
+  private chatPath(chatId: string): string {
+    return `${this.rootPath}/${encodeChatKey(chatId)}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { ValidationError } from './types';
+
+interface CountryRule {
+  /** Digits dialled before a national number, dropped in international format */
+  trunkPrefix?: string;
+  /** Allowed lengths of the national significant number */
+  minLength: number;
+  maxLength: number;
+}
+
+/**
+ * Numbering rules by calling code. Countries not listed only get the E.164 length check.
+ */
+const COUNTRY_RULES: Record<string, CountryRule> = {
+  '1': { trunkPrefix: '1', minLength: 10, maxLength: 10 },
+  '7': { trunkPrefix: '8', minLength: 10, maxLength: 10 },
+  '20': { trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  '27': { trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  '30': { minLength: 10, maxLength: 10 },
+  '31': { trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  '32': { trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  '33': { trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  '34': { minLength: 9, maxLength: 9 },
+  '39': { minLength: 6, maxLength: 11 },
+  '44': { trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  '49': { trunkPrefix: '0', minLength: 6, maxLength: 13 },
+  // WhatsApp still uses the former '1' mobile prefix (521...) for many Mexican accounts
+  '52': { minLength: 10, maxLength: 11 },
+  '54': { trunkPrefix: '0', minLength: 10, maxLength: 11 },
+  '55': { trunkPrefix: '0', minLength: 10, maxLength: 11 },
+  '61': { trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  '62': { trunkPrefix: '0', minLength: 8, maxLength: 12 },
+  '63': { trunkPrefix: '0', minLength: 10, maxLength: 10 },
+  '65': { minLength: 8, maxLength: 8 },
+  '81': { trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  '82': { trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  '86': { trunkPrefix: '0', minLength: 10, maxLength: 11 },
+  '90': { trunkPrefix: '0', minLength: 10, maxLength: 10 },
+  '91': { trunkPrefix: '0', minLength: 10, maxLength: 10 },
+  '92': { trunkPrefix: '0', minLength: 10, maxLength: 10 },
+  '234': { trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  '254': { trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  '351': { minLength: 9, maxLength: 9 },
+  '353': { trunkPrefix: '0', minLength: 7, maxLength: 9 },
+  '966': { trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  '971': { trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  '972': { trunkPrefix: '0', minLength: 8, maxLength: 9 }
+};
+
+// E.164 allows at most 15 digits; no assigned number is shorter than 8 including the country code
+const E164_MIN_DIGITS = 8;
+const E164_MAX_DIGITS = 15;
+
+/**
+ * Check a default country calling code from configuration
+ * @param countryCode - Calling code with or without '+', e.g. '27' or '+27'
+ * @returns The code as digits, or null if it is not a valid calling code
+ */
+export function parseCountryCode(countryCode: string): string | null {
+  const digits = String(countryCode).trim().replace(/^\+/, '');
+  return /^[1-9]\d{0,2}$/.test(digits) ? digits : null;
+}
+
+/**
+ * Normalize a phone number to E.164 ('+' followed by digits).
+ * Numbers without '+' or '00' are read as national numbers when a default country code is set,
+ * so '0821234567' with default '27' becomes '+27821234567'.
+ * @param input - Number as entered; spaces, dashes, dots, slashes and parentheses are ignored
+ * @param defaultCountryCode - Calling code for numbers in national format
+ * @returns E.164 number
+ */
+export function normalizePhoneNumber(input: string, defaultCountryCode?: string): string {
+  if (input === null || input === undefined || String(input).trim() === '') {
+    throw new ValidationError('Phone number is required', 'PHONE_REQUIRED');
+  }
+
+  const raw = String(input).trim();
+  const compact = raw.replace(/[\s\-.()/]/g, '');
+  if (!/^\+?\d+$/.test(compact)) {
+    throw new ValidationError(`Invalid phone number: ${raw} contains characters other than digits`, 'PHONE_INVALID_FORMAT');
+  }
+
+  let digits: string;
+  if (compact.startsWith('+')) {
+    digits = compact.slice(1);
+  } else if (compact.startsWith('00')) {
+    digits = compact.slice(2);
+  } else {
+    const countryCode = defaultCountryCode ? parseCountryCode(defaultCountryCode) : null;
+    if (countryCode) {
+      digits = fromNational(compact, countryCode);
+    } else if (compact.startsWith('0')) {
+      throw new ValidationError(
+        `Invalid phone number: ${raw} is in national format; include the country code or set defaultCountryCode`,
+        'PHONE_COUNTRY_CODE_REQUIRED'
+      );
+    } else {
+      // Without a default country, digits are read as an international number missing its '+'
+      digits = compact;
+    }
+  }
+
+  return `+${validateInternational(digits, raw)}`;
+}
+
+/**
+ * Build a WhatsApp JID from a phone number; JIDs are returned unchanged
+ * @param number - E.164 number or JID
+ * @returns JID such as 27821234567@s.whatsapp.net
+ */
+export function toWhatsAppJid(number: string): string {
+  if (String(number).includes('@')) {
+    return number;
+  }
+  return `${normalizePhoneNumber(number).slice(1)}@s.whatsapp.net`;
+}
+
+/**
+ * Compare two numbers or JIDs as WhatsApp accounts. WhatsApp may answer with a different form
+ * of the number than the one asked about: Brazilian mobiles with or without the 9th digit,
+ * and Mexican mobiles with or without the former '1' after the country code.
+ * @param a - E.164 number or JID
+ * @param b - E.164 number or JID
+ * @returns True if both refer to the same account
+ */
+export function isSameWhatsAppUser(a: string, b: string): boolean {
+  return toAccountKey(a) === toAccountKey(b);
+}
+
+/**
+ * @param id - Any recipient identifier
+ * @returns True for group JIDs (…@g.us)
+ */
+export function isGroupJid(id: string): boolean {
+  return typeof id === 'string' && id.trim().endsWith('@g.us');
+}
+
+/**
+ * Normalize a group ID to its JID; accepts the JID or the bare ID before '@g.us'
+ * @param groupId - Group JID or ID
+ * @returns Group JID
+ */
+export function normalizeGroupJid(groupId: string): string {
+  const id = String(groupId ?? '').trim().replace(/@g\.us$/, '');
+  if (!/^\d+(-\d+)?$/.test(id)) {
+    throw new ValidationError(`Invalid group ID: ${groupId}`, 'GROUP_INVALID_ID');
+  }
+  return `${id}@g.us`;
+}
+
+function fromNational(digits: string, countryCode: string): string {
+  const rule = COUNTRY_RULES[countryCode];
+  if (rule?.trunkPrefix && digits.startsWith(rule.trunkPrefix)) {
+    const national = digits.slice(rule.trunkPrefix.length);
+    if (national.length >= rule.minLength && national.length <= rule.maxLength) {
+      return countryCode + national;
+    }
+  }
+
+  // Already international, just missing the '+'
+  if (rule && digits.startsWith(countryCode) && !fitsRule(digits, rule) &&
+      fitsRule(digits.slice(countryCode.length), rule)) {
+    return digits;
+  }
+
+  return countryCode + digits;
+}
+
+function validateInternational(digits: string, raw: string): string {
+  if (digits.startsWith('0')) {
+    throw new ValidationError(`Invalid phone number: ${raw} has no valid country code`, 'PHONE_INVALID_COUNTRY_CODE');
+  }
+
+  const countryCode = [1, 2, 3].map(length => digits.slice(0, length)).find(code => COUNTRY_RULES[code]);
+  if (countryCode) {
+    const rule = COUNTRY_RULES[countryCode];
+    let national = digits.slice(countryCode.length);
+
+    // '+44 (0)20 ...' style: the trunk prefix does not belong in international format
+    if (rule.trunkPrefix && rule.trunkPrefix !== countryCode && national.startsWith(rule.trunkPrefix) &&
+        !fitsRule(national, rule) && fitsRule(national.slice(rule.trunkPrefix.length), rule)) {
+      national = national.slice(rule.trunkPrefix.length);
+    }
+
+    if (!fitsRule(national, rule)) {
+      const expected = rule.minLength === rule.maxLength
+        ? `${rule.minLength}`
+        : `${rule.minLength}-${rule.maxLength}`;
+      throw new ValidationError(
+        `Invalid phone number: ${raw} should have ${expected} digits after country code +${countryCode}`,
+        'PHONE_INVALID_LENGTH'
+      );
+    }
+    return countryCode + national;
+  }
+
+  if (digits.length < E164_MIN_DIGITS || digits.length > E164_MAX_DIGITS) {
+    throw new ValidationError(
+      `Invalid phone number: ${raw} should have ${E164_MIN_DIGITS}-${E164_MAX_DIGITS} digits including the country code`,
+      'PHONE_INVALID_LENGTH'
+    );
+  }
+  return digits;
+}
+
+function toAccountKey(id: string): string {
+  const digits = String(id).split('@')[0].split(':')[0].replace(/\D/g, '');
+  if (digits.length === 13 && digits.startsWith('55') && digits[4] === '9') {
+    return digits.slice(0, 4) + digits.slice(5);
+  }
+  if (digits.length === 13 && digits.startsWith('521')) {
+    return '52' + digits.slice(3);
+  }
+  return digits;
+}
+
+function fitsRule(national: string, rule: CountryRule): boolean {
+  return national.length >= rule.minLength && national.length <= rule.maxLength;
+}
\ No newline at end of file
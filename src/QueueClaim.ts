@@ -0,0 +1,80 @@
+import { QueueStore } from './types';
+
+/**
+ * A record claimed by an owner that stopped before moving it is claimable again after this
+ */
+export const CLAIM_TIMEOUT = 5 * 60 * 1000;
+
+export type ClaimResult =
+  | { status: 'claimed'; record: any }
+  | { status: 'busy' }
+  | { status: 'missing' };
+
+/**
+ * @param record - Queue record
+ * @param now - Reference time
+ * @returns True if someone claimed the record and may still be moving it
+ */
+export function isClaimed(record: any, now: number = Date.now()): boolean {
+  return !!record?.claimedBy && record.claimedAt > now - CLAIM_TIMEOUT;
+}
+
+/**
+ * @param record - Queue record
+ * @returns The record without its claim marks
+ */
+export function withoutClaim(record: any): any {
+  const { claimedBy, claimedAt, ...rest } = record;
+  return rest;
+}
+
+/**
+ * Mark a record as claimed so nobody else moves or changes it. The owner then moves it
+ * with one multi-path update, so the record is never missing from both places.
+ * @param store - Queue store
+ * @param path - Record path
+ * @param owner - Claim owner
+ * @param accept - Return false to leave an unclaimed record alone; it is reported as missing
+ * @returns The claimed record without claim marks, 'busy' if someone else holds a live claim
+ */
+export async function claimRecord(
+  store: QueueStore,
+  path: string,
+  owner: string,
+  accept: (record: any) => boolean = () => true
+): Promise<ClaimResult> {
+  const now = Date.now();
+  let current: any = null;
+
+  const result = await store.transaction(path, (value) => {
+    current = value;
+    // Firebase reruns the update with the server value when its local cache was stale
+    if (!value) {
+      return null;
+    }
+    return isClaimed(value, now) || !accept(value) ? undefined : { ...value, claimedBy: owner, claimedAt: now };
+  });
+
+  if (current && isClaimed(current, now)) {
+    return { status: 'busy' };
+  }
+  if (!result.committed || !current || !accept(current)) {
+    return { status: 'missing' };
+  }
+  return { status: 'claimed', record: withoutClaim(current) };
+}
+
+/**
+ * Drop a claim whose move failed so the record does not wait out CLAIM_TIMEOUT
+ * @param store - Queue store
+ * @param path - Record path
+ * @param owner - Claim owner
+ */
+export async function releaseClaim(store: QueueStore, path: string, owner: string): Promise<void> {
+  await store.transaction(path, (value) => {
+    if (!value) {
+      return null;
+    }
+    return value.claimedBy === owner ? withoutClaim(value) : undefined;
+  });
+}
\ No newline at end of file
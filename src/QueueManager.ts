@@ -1,13 +1,28 @@
 import * as admin from 'firebase-admin';
+import { FirebaseQueueStore } from './FirebaseQueueStore';
+import { DEFAULT_PRIORITY_AGING_INTERVAL, sortByPriority } from './QueuePriority';
+import { claimRecord, ClaimResult, isClaimed, releaseClaim } from './QueueClaim';
 import {
   QueueMessage,
   QueueStatus,
   MessageStatus,
   SendMessageResult,
-  SendMessageOptions
+  SendMessageOptions,
+  MessagePriority,
+  QueueStore,
+  QueuedMedia,
+  MessageReceipt,
+  ScheduledMessage,
+  QueuedMessagePatch,
+  FailedMessageFilter,
+  RetryFailedResult,
+  DeadLetterMessage,
+  JidType,
+  WhapleError,
+  ValidationError
 } from './types';
 
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 
 // UUID generation with fallback for different environments
 function generateUUID(): string {
@@ -26,17 +41,40 @@ function generateUUID(): string {
 interface QueueConfig {
   debug?: boolean;
   queueTimeout?: number;
+  priorityAgingInterval?: number;
   [key: string]: any;
 }
 
+interface MessageRecords {
+  scheduled?: any;
+  pending?: any;
+  processing?: any;
+  completed?: any;
+  failed?: any;
+  dead_letter?: any;
+  cancelled?: any;
+}
+
+const TERMINAL_STATUSES: MessageStatus['status'][] = ['sent', 'delivered', 'read', 'failed', 'dead_letter', 'cancelled'];
+// 'failed' holds records written before dead-lettering, or by servers that do not use it
+const FAILED_STATES = ['dead_letter', 'failed'] as const;
+// States a message can still be cancelled or edited in
+const EDITABLE_STATES = ['pending', 'scheduled'] as const;
+const SENT_STATUSES: MessageStatus['status'][] = ['sent', 'delivered', 'read'];
+const STATUS_POLL_INTERVAL = 2000;
+// An in-flight key older than this is treated as abandoned by a crashed process
+const IDEMPOTENCY_LOCK_TIMEOUT = 5 * 60 * 1000;
+
 interface MessageData {
   number: string;
+  jidType?: JidType;
   message: string;
+  media?: QueuedMedia;
   options: SendMessageOptions;
   source: string;
   version: string;
   timestamp: number;
-  priority: 'high' | 'medium' | 'low';
+  priority: MessagePriority;
 }
 
 interface QueueStatusWithServer extends QueueStatus {
@@ -51,6 +89,7 @@ interface QueueStatusWithServer extends QueueStatus {
 interface ProcessingEstimate {
   found: boolean;
   position?: number;
+  priority?: MessagePriority;
   messagesAhead?: number;
   estimatedWaitTimeMs?: number;
   estimatedWaitTimeMin?: number;
@@ -68,17 +107,21 @@ interface RecentActivity {
 
 interface QueueDetails {
   success: boolean;
+  scheduled: Record<string, any>;
   pending: Record<string, any>;
   processing: Record<string, any>;
   completed: Record<string, any>;
   failed: Record<string, any>;
+  deadLetter: Record<string, any>;
   serverHeartbeat: any;
   timestamp: number;
   summary: {
+    scheduled: number;
     pending: number;
     processing: number;
     completed: number;
     failed: number;
+    deadLetter: number;
     total: number;
   };
   error?: string;
@@ -99,14 +142,24 @@ interface ConditionalAddResult {
 }
 
 export class QueueManager {
-  private database: admin.database.Database;
+  private store: QueueStore;
   private config: QueueConfig;
-  private queueRef: admin.database.Reference;
+  // Claims this manager puts on records it moves, like the worker's claims before sending
+  private claimOwner = `queue-manager-${generateUUID()}`;
 
-  constructor(database: admin.database.Database, config: QueueConfig) {
-    this.database = database;
+  constructor(store: QueueStore | admin.database.Database, config: QueueConfig) {
+    this.store = typeof (store as admin.database.Database).ref === 'function'
+      ? new FirebaseQueueStore(store as admin.database.Database)
+      : store as QueueStore;
     this.config = config;
-    this.queueRef = this.database.ref('message_queue');
+  }
+
+  /**
+   * Get the storage backend used by this queue
+   * @returns Queue store
+   */
+  getStore(): QueueStore {
+    return this.store;
   }
 
   /**
@@ -127,8 +180,9 @@ export class QueueManager {
       };
 
       // Add to pending queue
-      await this.queueRef.child(`pending/${messageId}`).set({
+      await this.store.write(`pending/${messageId}`, {
         ...queueData,
+        ...(messageData.options?.idempotencyKey ? { idempotencyKey: messageData.options.idempotencyKey } : {}),
         queuedAt: Date.now(),
         attempts: 0
       });
@@ -145,21 +199,476 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Add message to the scheduled queue; the queue worker moves it to pending once due
+   * @param messageData - Message data object
+   * @param sendAt - Send time in milliseconds since the epoch
+   * @returns Schedule result with message ID
+   */
+  async scheduleMessage(messageData: MessageData, sendAt: number): Promise<SendMessageResult> {
+    try {
+      const messageId = this.generateMessageId();
+      const scheduledAt = Date.now();
+
+      await this.store.write(`scheduled/${messageId}`, {
+        ...messageData,
+        id: messageId,
+        status: 'scheduled',
+        retryCount: 0,
+        attempts: 0,
+        scheduledAt,
+        sendAt
+      });
+
+      return {
+        success: true,
+        method: 'scheduled',
+        messageId,
+        timestamp: scheduledAt,
+        sendAt
+      };
+    } catch (error) {
+      throw new Error(`Failed to schedule message: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List scheduled messages, soonest first
+   * @returns Scheduled messages
+   */
+  async listScheduledMessages(): Promise<ScheduledMessage[]> {
+    const scheduled = await this.store.list('scheduled', { orderBy: 'sendAt' });
+
+    return Object.entries(scheduled)
+      .map(([id, data]) => ({ ...(data as any), id }) as ScheduledMessage)
+      .sort((a, b) => a.sendAt - b.sendAt);
+  }
+
+  /**
+   * Remove a message from the scheduled queue
+   * @param messageId - Message ID
+   * @returns The removed message, or null if it was not scheduled (already promoted or unknown)
+   */
+  async cancelScheduledMessage(messageId: string): Promise<ScheduledMessage | null> {
+    // A claimed message is being promoted by a worker, so it counts as already queued
+    const claim = await this.moveRecord('scheduled', messageId, () => ({}));
+    return claim.status === 'claimed' ? claim.record : null;
+  }
+
+  /**
+   * Change the send time of a scheduled message
+   * @param messageId - Message ID
+   * @param sendAt - New send time in milliseconds since the epoch
+   * @returns Updated scheduled message
+   */
+  async rescheduleMessage(messageId: string, sendAt: number): Promise<ScheduledMessage> {
+    let claimed = false;
+    const result = await this.store.transaction(`scheduled/${messageId}`, (current) => {
+      claimed = isClaimed(current);
+      if (claimed) {
+        return undefined;
+      }
+      // Returning null instead of aborting lets Firebase retry with the server value when its cache is cold
+      return current ? { ...current, sendAt } : null;
+    });
+
+    if (claimed) {
+      throw new WhapleError(`Message ${messageId} is being queued and can no longer be rescheduled`, 'MESSAGE_PROCESSING');
+    }
+    if (!result.committed || !result.value) {
+      throw new WhapleError(`Message ${messageId} is not scheduled`, 'MESSAGE_NOT_SCHEDULED');
+    }
+
+    return { ...result.value, id: messageId };
+  }
+
+  /**
+   * Cancel a pending or scheduled message and move it to cancelled
+   * @param messageId - Message ID
+   * @returns The cancelled record
+   */
+  async cancelMessage(messageId: string): Promise<any> {
+    for (const state of EDITABLE_STATES) {
+      let cancelled: any = null;
+      const claim = await this.moveRecord(state, messageId, (record) => {
+        cancelled = {
+          ...record,
+          status: 'cancelled',
+          previousStatus: state,
+          cancelledAt: Date.now()
+        };
+        return { [`cancelled/${messageId}`]: cancelled };
+      });
+
+      if (claim.status === 'busy') {
+        throw this.processingError(messageId);
+      }
+      if (claim.status === 'claimed') {
+        return { ...cancelled, id: messageId };
+      }
+    }
+
+    throw await this.notEditableError(messageId);
+  }
+
+  /**
+   * Remove every pending message so another queue can take it over.
+   * Messages already claimed by a worker are left to it.
+   * @returns The removed records with their IDs
+   */
+  async takePendingMessages(): Promise<QueueMessage[]> {
+    const pending = await this.store.list('pending');
+    const taken: QueueMessage[] = [];
+
+    for (const messageId of Object.keys(pending)) {
+      const claim = await this.moveRecord('pending', messageId, () => ({}));
+      if (claim.status === 'claimed') {
+        taken.push({ ...claim.record, id: messageId });
+      }
+    }
+    return taken;
+  }
+
+  /**
+   * Change a pending or scheduled message in place
+   * @param messageId - Message ID
+   * @param patch - Fields to change; options are merged
+   * @returns The updated record
+   */
+  async updateQueuedMessage(messageId: string, patch: QueuedMessagePatch): Promise<any> {
+    const changes: Record<string, any> = {};
+    for (const key of ['number', 'message', 'priority'] as const) {
+      if (patch[key] !== undefined) {
+        changes[key] = patch[key];
+      }
+    }
+
+    for (const state of EDITABLE_STATES) {
+      let claimed = false;
+      let notText = false;
+      const result = await this.store.transaction(`${state}/${messageId}`, (current) => {
+        claimed = isClaimed(current);
+        notText = patch.message !== undefined && !!current?.content && current.content.type !== 'text';
+        if (claimed || notText) {
+          return undefined;
+        }
+        if (!current) {
+          return null;
+        }
+        // The worker sends the content or media caption, not the message summary
+        return {
+          ...current,
+          ...changes,
+          ...(patch.message !== undefined && current.content ? { content: { ...current.content, text: patch.message } } : {}),
+          ...(patch.message !== undefined && current.media ? { media: { ...current.media, caption: patch.message } } : {}),
+          options: patch.options ? { ...(current.options || {}), ...patch.options } : current.options || {},
+          updatedAt: Date.now()
+        };
+      });
+
+      if (claimed) {
+        throw this.processingError(messageId);
+      }
+      if (notText) {
+        throw new ValidationError(`Message ${messageId} is not a text message, so its text cannot be changed`);
+      }
+      if (result.committed && result.value) {
+        return { ...result.value, id: messageId };
+      }
+    }
+
+    throw await this.notEditableError(messageId);
+  }
+
+  /**
+   * Move a failed or dead-lettered message back to pending with a fresh attempt budget
+   * @param messageId - Message ID
+   * @returns Queue result with the new position
+   */
+  async retryFailed(messageId: string): Promise<SendMessageResult> {
+    for (const state of FAILED_STATES) {
+      const result = await this.requeue(state, messageId);
+      if (result) {
+        return result;
+      }
+    }
+
+    if (await this.store.read(`processing/${messageId}`)) {
+      throw new WhapleError(`Message ${messageId} is being processed`, 'MESSAGE_PROCESSING');
+    }
+    throw new WhapleError(`Message ${messageId} is not in the failed queue`, 'MESSAGE_NOT_FAILED');
+  }
+
+  /**
+   * Retry every failed or dead-lettered message matching a filter
+   * @param filter - Number, error and failure time filters
+   * @returns IDs of the retried messages
+   */
+  async retryAllFailed(filter: FailedMessageFilter = {}): Promise<RetryFailedResult> {
+    const matches: string[] = [];
+    for (const state of FAILED_STATES) {
+      const records = await this.listMatching(state, filter);
+      matches.push(...records.map(record => record.id));
+    }
+
+    return await this.requeueAll(filter.limit ? matches.slice(0, filter.limit) : matches, id => this.retryFailed(id));
+  }
+
+  /**
+   * List dead-lettered messages, oldest first
+   * @param filter - Number, error and failure time filters
+   * @returns Dead-lettered messages
+   */
+  async listDeadLetters(filter: FailedMessageFilter = {}): Promise<DeadLetterMessage[]> {
+    const records = await this.listMatching('dead_letter', filter);
+    return filter.limit ? records.slice(0, filter.limit) : records;
+  }
+
+  /**
+   * Export dead-lettered messages for analysis outside the SDK
+   * @param filter - Number, error and failure time filters
+   * @param format - 'json' (full records) or 'csv' (one row per message)
+   * @returns Serialized messages
+   */
+  async exportDeadLetters(filter: FailedMessageFilter = {}, format: 'json' | 'csv' = 'json'): Promise<string> {
+    const records = await this.listDeadLetters(filter);
+
+    if (format === 'json') {
+      return JSON.stringify(records, null, 2);
+    }
+
+    const columns = ['id', 'number', 'message', 'errorType', 'reason', 'error', 'attempts', 'failedAt', 'deadLetteredAt'] as const;
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+      columns.join(','),
+      ...records.map(record => columns.map(column => escape(record[column])).join(','))
+    ].join('\n');
+  }
+
+  /**
+   * Move a dead-lettered message back to pending
+   * @param messageId - Message ID
+   * @returns Queue result with the new position
+   */
+  async requeueDeadLetter(messageId: string): Promise<SendMessageResult> {
+    const result = await this.requeue('dead_letter', messageId);
+    if (!result) {
+      throw new WhapleError(`Message ${messageId} is not in the dead-letter queue`, 'MESSAGE_NOT_DEAD_LETTERED');
+    }
+    return result;
+  }
+
+  /**
+   * Move every dead-lettered message matching a filter back to pending
+   * @param filter - Number, error and failure time filters
+   * @returns IDs of the requeued messages
+   */
+  async requeueDeadLetters(filter: FailedMessageFilter = {}): Promise<RetryFailedResult> {
+    const records = await this.listDeadLetters(filter);
+    return await this.requeueAll(records.map(record => record.id), id => this.requeueDeadLetter(id));
+  }
+
+  /**
+   * Atomically take a message from a failure state and put it back in pending
+   * @returns Queue result, or null if the message was not in that state
+   */
+  private async requeue(state: typeof FAILED_STATES[number], messageId: string): Promise<SendMessageResult | null> {
+    const now = Date.now();
+    const claim = await this.moveRecord(state, messageId, (record) => {
+      const { error, errorType, reason, failedAt, deadLetteredAt, workerId, nextAttemptAt, ...rest } = record;
+      return {
+        [`pending/${messageId}`]: {
+          ...rest,
+          status: 'pending',
+          attempts: 0,
+          lastError: error || null,
+          lastErrorType: errorType || null,
+          queuedAt: now,
+          retriedAt: now
+        }
+      };
+    });
+
+    if (claim.status === 'busy') {
+      throw new WhapleError(`Message ${messageId} is already being retried`, 'MESSAGE_PROCESSING');
+    }
+    if (claim.status === 'missing') {
+      return null;
+    }
+
+    return {
+      success: true,
+      method: 'queued',
+      messageId,
+      timestamp: now,
+      position: await this.getQueuePosition(messageId)
+    };
+  }
+
+  private async requeueAll(
+    messageIds: string[],
+    requeueOne: (messageId: string) => Promise<SendMessageResult>
+  ): Promise<RetryFailedResult> {
+    const retried: string[] = [];
+    for (const messageId of messageIds) {
+      try {
+        await requeueOne(messageId);
+        retried.push(messageId);
+      } catch (error) {
+        // Retried or removed by someone else in the meantime
+        if (this.config.debug) {
+          console.warn(`Skipping retry of ${messageId}:`, (error as Error).message);
+        }
+      }
+    }
+
+    return { retried: retried.length, messageIds: retried };
+  }
+
+  /**
+   * List records in a failure state that match a filter, oldest failure first
+   */
+  private async listMatching(state: typeof FAILED_STATES[number], filter: FailedMessageFilter): Promise<any[]> {
+    const records = await this.store.list(state, { orderBy: 'failedAt' });
+
+    return Object.entries(records)
+      .map(([id, record]) => ({ ...(record as any), id }))
+      .filter(record =>
+        (!filter.number || record.number === filter.number) &&
+        (!filter.error || String(record.error || '').includes(filter.error)) &&
+        (!filter.errorType || record.errorType === filter.errorType) &&
+        (filter.failedAfter === undefined || record.failedAt >= filter.failedAfter) &&
+        (filter.failedBefore === undefined || record.failedAt < filter.failedBefore)
+      )
+      .sort((a, b) => (a.failedAt || 0) - (b.failedAt || 0));
+  }
+
+  /**
+   * Claim a record, then remove it and write its replacement in one multi-path update,
+   * the same way the worker moves messages, so a failed write never loses it
+   * @param state - Queue the record is in
+   * @param messageId - Message ID
+   * @param replacement - Paths to write for the claimed record
+   * @returns Claim outcome; 'busy' if a worker holds a live claim on the record
+   */
+  private async moveRecord(
+    state: string,
+    messageId: string,
+    replacement: (record: any) => Record<string, any>
+  ): Promise<ClaimResult> {
+    const path = `${state}/${messageId}`;
+    const claim = await claimRecord(this.store, path, this.claimOwner);
+    if (claim.status !== 'claimed') {
+      return claim;
+    }
+
+    try {
+      await this.store.update({ [path]: null, ...replacement(claim.record) });
+    } catch (error) {
+      await releaseClaim(this.store, path, this.claimOwner).catch(() => undefined);
+      throw error;
+    }
+    return claim;
+  }
+
+  private processingError(messageId: string): WhapleError {
+    return new WhapleError(`Message ${messageId} is being processed and can no longer be changed`, 'MESSAGE_PROCESSING');
+  }
+
+  /**
+   * Build the error for a message that can no longer be cancelled or edited
+   */
+  private async notEditableError(messageId: string): Promise<WhapleError> {
+    if (await this.store.read(`processing/${messageId}`)) {
+      return this.processingError(messageId);
+    }
+    return new WhapleError(`Message ${messageId} is not pending or scheduled`, 'MESSAGE_NOT_QUEUED');
+  }
+
+  /**
+   * Claim an idempotency key before sending
+   * @param key - Caller-supplied idempotency key
+   * @returns The original result if the key was already used, or null if the caller should send
+   */
+  async reserveIdempotencyKey(key: string): Promise<SendMessageResult | null> {
+    const now = Date.now();
+    let existing: any = null;
+
+    const result = await this.store.transaction(this.idempotencyPath(key), (current) => {
+      existing = current;
+      const expired = !current ||
+        (current.status === 'completed' && current.expiresAt <= now) ||
+        (current.status === 'in_flight' && now - current.createdAt > IDEMPOTENCY_LOCK_TIMEOUT);
+
+      // Returning undefined aborts and leaves the existing record alone
+      return expired ? { status: 'in_flight', createdAt: now } : undefined;
+    });
+
+    if (result.committed) {
+      return null;
+    }
+
+    if (existing?.status === 'completed') {
+      return { ...existing.result, replayed: true };
+    }
+
+    throw new WhapleError(`A message with idempotency key ${key} is already being sent`, 'IDEMPOTENCY_IN_PROGRESS');
+  }
+
+  /**
+   * Remember the result sent for an idempotency key
+   * @param key - Idempotency key
+   * @param result - Result to return on replays
+   * @param window - How long to remember it in milliseconds
+   */
+  async recordIdempotentResult(key: string, result: SendMessageResult, window: number): Promise<void> {
+    const now = Date.now();
+    // The raw WhatsApp key is dropped; it is large and not JSON-safe
+    const { key: _rawKey, ...stored } = result;
+
+    await this.store.write(this.idempotencyPath(key), {
+      status: 'completed',
+      result: JSON.parse(JSON.stringify(stored)),
+      createdAt: now,
+      expiresAt: now + window
+    });
+  }
+
+  /**
+   * Release a reserved idempotency key after a failed send so the caller can retry
+   * @param key - Idempotency key
+   */
+  async releaseIdempotencyKey(key: string): Promise<void> {
+    await this.store.write(this.idempotencyPath(key), null);
+  }
+
+  /**
+   * Keys are hashed so any string is a valid store path
+   */
+  private idempotencyPath(key: string): string {
+    return `idempotency/${createHash('sha256').update(key).digest('hex')}`;
+  }
+
   /**
    * Get current queue status and statistics
    * @returns Queue statistics
    */
   async getQueueStatus(): Promise<QueueStatus> {
     try {
-      const [pendingSnap, processingSnap, heartbeatSnap] = await Promise.all([
-        this.queueRef.child('pending').once('value'),
-        this.queueRef.child('processing').once('value'),
-        this.queueRef.child('server_status/heartbeat').once('value')
+      const [scheduled, pending, processing, deadLetter, heartbeat] = await Promise.all([
+        this.store.list('scheduled'),
+        this.store.list('pending'),
+        this.store.list('processing'),
+        this.store.list('dead_letter'),
+        this.store.read('server_status/heartbeat')
       ]);
 
-      const pendingMessages = pendingSnap.exists() ? Object.keys(pendingSnap.val()).length : 0;
-      const processingMessages = processingSnap.exists() ? Object.keys(processingSnap.val()).length : 0;
-      const heartbeat = heartbeatSnap.exists() ? heartbeatSnap.val() : null;
+      const pendingMessages = Object.keys(pending).length;
+      const processingMessages = Object.keys(processing).length;
 
       const isServerAlive = heartbeat && 
                            heartbeat.alive === true && 
@@ -167,6 +676,8 @@ export class QueueManager {
 
       return {
         totalMessages: pendingMessages + processingMessages,
+        scheduledMessages: Object.keys(scheduled).length,
+        deadLetterMessages: Object.keys(deadLetter).length,
         pendingMessages,
         processingMessages,
         sentMessages: 0, // Would need to track this separately
@@ -178,6 +689,8 @@ export class QueueManager {
     } catch (error) {
       return {
         totalMessages: 0,
+        scheduledMessages: 0,
+        deadLetterMessages: 0,
         pendingMessages: 0,
         processingMessages: 0,
         sentMessages: 0,
@@ -195,49 +708,35 @@ export class QueueManager {
   async getMessageStatus(messageId: string): Promise<MessageStatus> {
     try {
       // Check all queue states for the message
-      const [pendingSnap, processingSnap, completedSnap, failedSnap] = await Promise.all([
-        this.queueRef.child(`pending/${messageId}`).once('value'),
-        this.queueRef.child(`processing/${messageId}`).once('value'),
-        this.queueRef.child(`completed/${messageId}`).once('value'),
-        this.queueRef.child(`failed/${messageId}`).once('value')
+      const [scheduled, pending, processing, completed, failed, deadLetter, cancelled] = await Promise.all([
+        this.store.read(`scheduled/${messageId}`),
+        this.store.read(`pending/${messageId}`),
+        this.store.read(`processing/${messageId}`),
+        this.store.read(`completed/${messageId}`),
+        this.store.read(`failed/${messageId}`),
+        this.store.read(`dead_letter/${messageId}`),
+        this.store.read(`cancelled/${messageId}`)
       ]);
 
-      if (pendingSnap.exists()) {
-        const data = pendingSnap.val();
-        return {
-          id: messageId,
-          status: 'pending',
-          timestamp: data.queuedAt,
-          position: await this.getQueuePosition(messageId)
-        };
-      }
-
-      if (processingSnap.exists()) {
-        const data = processingSnap.val();
-        return {
-          id: messageId,
-          status: 'processing',
-          timestamp: data.startedAt
-        };
-      }
-
-      if (completedSnap.exists()) {
-        const data = completedSnap.val();
-        return {
-          id: messageId,
-          status: 'sent',
-          timestamp: data.completedAt,
-          sentAt: data.completedAt
-        };
+      const position = pending ? await this.getQueuePosition(messageId) : undefined;
+      const status = this.toMessageStatus(
+        messageId,
+        { scheduled, pending, processing, completed, failed, dead_letter: deadLetter, cancelled },
+        position
+      );
+      if (status) {
+        return status;
       }
 
-      if (failedSnap.exists()) {
-        const data = failedSnap.val();
+      // Direct sends are not queued, but their receipts are recorded by WhatsApp message ID
+      const receipt = await this.store.read(`receipts/${messageId}`);
+      if (receipt && (receipt.deliveredAt || receipt.readAt)) {
         return {
           id: messageId,
-          status: 'failed',
-          timestamp: data.failedAt,
-          error: data.error
+          status: receipt.readAt ? 'read' : 'delivered',
+          timestamp: receipt.readAt || receipt.deliveredAt,
+          deliveredAt: receipt.deliveredAt,
+          readAt: receipt.readAt
         };
       }
 
@@ -259,21 +758,290 @@ export class QueueManager {
   }
 
   /**
-   * Get position of message in pending queue
+   * Record a delivery or read receipt and copy it onto the matching completed record
+   * @param receipt - Receipt reported by WhatsApp
+   */
+  async recordReceipt(receipt: MessageReceipt): Promise<void> {
+    const field = receipt.status === 'read' ? 'readAt' : 'deliveredAt';
+
+    try {
+      const result = await this.store.transaction(`receipts/${receipt.messageId}`, (current) => {
+        const record = current || {};
+        if (record[field]) {
+          return record;
+        }
+        return {
+          ...record,
+          [field]: receipt.timestamp,
+          // Never downgrade read back to delivered
+          status: record.readAt || receipt.status === 'read' ? 'read' : 'delivered',
+          chatId: receipt.chatId
+        };
+      });
+
+      const queueMessageId = result.value?.queueMessageId;
+      if (!queueMessageId) {
+        return;
+      }
+
+      const completed = await this.store.read(`completed/${queueMessageId}`);
+      if (completed && !completed[field]) {
+        await this.store.update({ [`completed/${queueMessageId}/${field}`]: receipt.timestamp });
+      }
+    } catch (error) {
+      if (this.config.debug) {
+        console.error('Failed to record receipt:', (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Watch a message as it moves through the queue.
+   * Uses store listeners when available and falls back to polling otherwise.
+   * @param messageId - Message ID to watch
+   * @param callback - Called on every status or position change
+   * @returns Unsubscribe function
+   */
+  watchMessage(messageId: string, callback: (status: MessageStatus) => void): () => void {
+    let lastKey: string | null = null;
+    const emitIfChanged = (status: MessageStatus | null) => {
+      if (!status) return;
+      const key = `${status.status}:${status.position ?? ''}:${status.sendAt ?? ''}`;
+      if (key === lastKey) return;
+      lastKey = key;
+      callback(status);
+    };
+
+    if (!this.store.subscribe) {
+      return this.pollMessage(messageId, emitIfChanged);
+    }
+
+    const records: MessageRecords = {};
+    let pendingIds: string[] = [];
+    const evaluate = () => {
+      const position = records.pending ? pendingIds.indexOf(messageId) : undefined;
+      emitIfChanged(this.toMessageStatus(messageId, records, position));
+    };
+
+    const unsubscribers = [
+      // The whole pending list is watched so position updates are reported too
+      this.store.subscribe('pending', (pending) => {
+        records.pending = pending?.[messageId] || null;
+        pendingIds = pending ? this.sortPendingIds(pending) : [];
+        evaluate();
+      }),
+      ...(['scheduled', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled'] as const).map(state =>
+        this.store.subscribe!(`${state}/${messageId}`, (value) => {
+          records[state] = value;
+          evaluate();
+        })
+      )
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Iterate over status transitions until the message is sent or failed
+   * @param messageId - Message ID to watch
+   * @returns Async iterator of message statuses
+   */
+  async *watchMessageStatus(messageId: string): AsyncGenerator<MessageStatus> {
+    const buffered: MessageStatus[] = [];
+    let wake: (() => void) | null = null;
+
+    const unsubscribe = this.watchMessage(messageId, (status) => {
+      buffered.push(status);
+      if (wake) {
+        wake();
+        wake = null;
+      }
+    });
+
+    try {
+      while (true) {
+        if (buffered.length === 0) {
+          await new Promise<void>(resolve => { wake = resolve; });
+        }
+        const status = buffered.shift()!;
+        yield status;
+        if (TERMINAL_STATUSES.includes(status.status)) {
+          return;
+        }
+      }
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Wait until a queued message is sent
+   * @param messageId - Message ID to wait for
+   * @param timeout - Maximum wait in milliseconds
+   * @returns Final message status
+   */
+  waitForDelivery(messageId: string, timeout: number = this.config.queueTimeout || 30000): Promise<MessageStatus> {
+    return new Promise((resolve, reject) => {
+      let unsubscribe: (() => void) | null = null;
+      let settled = false;
+
+      const finish = (error: Error | null, status?: MessageStatus) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        // The callback may fire synchronously before watchMessage returns
+        setImmediate(() => unsubscribe?.());
+        error ? reject(error) : resolve(status!);
+      };
+
+      const timer = setTimeout(() => {
+        finish(new WhapleError(`Message ${messageId} not delivered within ${timeout}ms`, 'DELIVERY_TIMEOUT'));
+      }, timeout);
+
+      unsubscribe = this.watchMessage(messageId, (status) => {
+        if (SENT_STATUSES.includes(status.status)) {
+          finish(null, status);
+        } else if (status.status === 'failed' || status.status === 'dead_letter') {
+          finish(new WhapleError(`Message ${messageId} failed: ${status.error || 'unknown error'}`, 'DELIVERY_FAILED'));
+        } else if (status.status === 'cancelled') {
+          finish(new WhapleError(`Message ${messageId} was cancelled`, 'DELIVERY_CANCELLED'));
+        }
+      });
+
+      if (settled) {
+        unsubscribe();
+      }
+    });
+  }
+
+  /**
+   * Polling fallback for stores without listeners
+   */
+  private pollMessage(messageId: string, callback: (status: MessageStatus | null) => void): () => void {
+    let active = true;
+
+    const poll = async () => {
+      if (!active) return;
+      const status = await this.getMessageStatus(messageId);
+      if (!active) return;
+      // Not-found results come back as failed; keep waiting instead
+      callback(status.error === 'Message not found in any queue state' ? null : status);
+      timer = setTimeout(poll, STATUS_POLL_INTERVAL);
+    };
+
+    let timer: NodeJS.Timeout = setTimeout(poll, 0);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * Map queue records to a message status
+   * @param messageId - Message ID
+   * @param records - Record of the message in each queue state
+   * @param position - Position in the pending queue
+   * @returns Message status or null if the message is in no state
+   */
+  private toMessageStatus(
+    messageId: string,
+    records: MessageRecords,
+    position?: number
+  ): MessageStatus | null {
+    if (records.scheduled) {
+      return {
+        id: messageId,
+        status: 'scheduled',
+        timestamp: records.scheduled.scheduledAt,
+        sendAt: records.scheduled.sendAt
+      };
+    }
+
+    if (records.pending) {
+      return {
+        id: messageId,
+        status: 'pending',
+        timestamp: records.pending.queuedAt,
+        position,
+        // Set while a failed message waits for its backoff delay
+        error: records.pending.lastError || undefined,
+        errorType: records.pending.lastErrorType || undefined,
+        nextAttemptAt: records.pending.nextAttemptAt || undefined
+      };
+    }
+
+    if (records.processing) {
+      return {
+        id: messageId,
+        status: 'processing',
+        timestamp: records.processing.startedAt
+      };
+    }
+
+    if (records.completed) {
+      const { completedAt, deliveredAt, readAt } = records.completed;
+      return {
+        id: messageId,
+        status: readAt ? 'read' : deliveredAt ? 'delivered' : 'sent',
+        timestamp: readAt || deliveredAt || completedAt,
+        sentAt: completedAt,
+        deliveredAt,
+        readAt
+      };
+    }
+
+    if (records.failed) {
+      return {
+        id: messageId,
+        status: 'failed',
+        timestamp: records.failed.failedAt,
+        error: records.failed.error
+      };
+    }
+
+    if (records.dead_letter) {
+      return {
+        id: messageId,
+        status: 'dead_letter',
+        timestamp: records.dead_letter.deadLetteredAt,
+        error: records.dead_letter.error,
+        errorType: records.dead_letter.errorType
+      };
+    }
+
+    if (records.cancelled) {
+      return {
+        id: messageId,
+        status: 'cancelled',
+        timestamp: records.cancelled.cancelledAt
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Order pending message IDs as the queue worker will process them
+   * @param messages - Pending messages keyed by ID
+   * @returns Sorted message IDs
+   */
+  private sortPendingIds(messages: Record<string, any>): string[] {
+    return sortByPriority(messages, this.config.priorityAgingInterval ?? DEFAULT_PRIORITY_AGING_INTERVAL);
+  }
+
+  /**
+   * Get position of message in pending queue.
+   * Higher priority messages queued later can move a message back.
    * @param messageId - Message ID
    * @returns Queue position (0-based)
    */
   async getQueuePosition(messageId: string): Promise<number> {
     try {
-      const snapshot = await this.queueRef.child('pending')
-        .orderByChild('queuedAt')
-        .once('value');
+      const messages = await this.store.list('pending', { orderBy: 'queuedAt' });
 
-      if (!snapshot.exists()) return -1;
+      if (Object.keys(messages).length === 0) return -1;
 
-      const messages = snapshot.val();
-      const messageIds = Object.keys(messages)
-        .sort((a, b) => messages[a].queuedAt - messages[b].queuedAt);
+      const messageIds = this.sortPendingIds(messages);
 
       return messageIds.indexOf(messageId);
     } catch (error) {
@@ -288,25 +1056,23 @@ export class QueueManager {
    */
   async getRecentActivity(limit: number = 10): Promise<RecentActivity> {
     try {
-      const [completedSnap, failedSnap] = await Promise.all([
-        this.queueRef.child('completed')
-          .orderByChild('completedAt')
-          .limitToLast(limit)
-          .once('value'),
-        this.queueRef.child('failed')
-          .orderByChild('failedAt')
-          .limitToLast(limit)
-          .once('value')
+      const [completedData, failedData, deadLetterData] = await Promise.all([
+        this.store.list('completed', { orderBy: 'completedAt', limitToLast: limit }),
+        this.store.list('failed', { orderBy: 'failedAt', limitToLast: limit }),
+        this.store.list('dead_letter', { orderBy: 'failedAt', limitToLast: limit })
       ]);
 
-      const completed = completedSnap.exists() ? 
-        Object.entries(completedSnap.val()).map(([id, data]) => ({ id, ...(data as any), type: 'completed' })) : [];
+      const completed = Object.entries(completedData)
+        .map(([id, data]) => ({ id, ...(data as any), type: 'completed' }));
       
-      const failed = failedSnap.exists() ? 
-        Object.entries(failedSnap.val()).map(([id, data]) => ({ id, ...(data as any), type: 'failed' })) : [];
+      const failed = Object.entries(failedData)
+        .map(([id, data]) => ({ id, ...(data as any), type: 'failed' }));
+
+      const deadLettered = Object.entries(deadLetterData)
+        .map(([id, data]) => ({ id, ...(data as any), type: 'dead_letter' }));
 
       // Combine and sort by timestamp
-      const activity = [...completed, ...failed]
+      const activity = [...completed, ...failed, ...deadLettered]
         .sort((a: any, b: any) => (b.completedAt || b.failedAt || 0) - (a.completedAt || a.failedAt || 0))
         .slice(0, limit);
 
@@ -332,9 +1098,10 @@ export class QueueManager {
    */
   async getProcessingEstimate(messageId: string): Promise<ProcessingEstimate> {
     try {
-      const [queueStatus, position] = await Promise.all([
+      const [queueStatus, position, pending] = await Promise.all([
         this.getQueueStatus() as Promise<QueueStatusWithServer>,
-        this.getQueuePosition(messageId)
+        this.getQueuePosition(messageId),
+        this.store.read(`pending/${messageId}`)
       ]);
 
       if (position === -1) {
@@ -351,6 +1118,7 @@ export class QueueManager {
       return {
         found: true,
         position: position + 1, // 1-based position for user display
+        priority: pending?.priority || 'medium',
         messagesAhead: position,
         estimatedWaitTimeMs: estimatedWaitTime,
         estimatedWaitTimeMin: Math.ceil(estimatedWaitTime / 60000),
@@ -373,29 +1141,34 @@ export class QueueManager {
    */
   async getQueueDetails(): Promise<QueueDetails> {
     try {
-      const [pendingSnap, processingSnap, completedSnap, failedSnap, heartbeatSnap] = await Promise.all([
-        this.queueRef.child('pending').once('value'),
-        this.queueRef.child('processing').once('value'),
-        this.queueRef.child('completed').limitToLast(50).once('value'),
-        this.queueRef.child('failed').limitToLast(50).once('value'),
-        this.queueRef.child('server_status/heartbeat').once('value')
+      const [scheduled, pending, processing, completed, failed, deadLetter, serverHeartbeat] = await Promise.all([
+        this.store.list('scheduled', { orderBy: 'sendAt' }),
+        this.store.list('pending'),
+        this.store.list('processing'),
+        this.store.list('completed', { limitToLast: 50 }),
+        this.store.list('failed', { limitToLast: 50 }),
+        this.store.list('dead_letter', { orderBy: 'deadLetteredAt', limitToLast: 50 }),
+        this.store.read('server_status/heartbeat')
       ]);
 
       return {
         success: true,
-        pending: pendingSnap.exists() ? pendingSnap.val() : {},
-        processing: processingSnap.exists() ? processingSnap.val() : {},
-        completed: completedSnap.exists() ? completedSnap.val() : {},
-        failed: failedSnap.exists() ? failedSnap.val() : {},
-        serverHeartbeat: heartbeatSnap.exists() ? heartbeatSnap.val() : null,
+        scheduled,
+        pending,
+        processing,
+        completed,
+        failed,
+        deadLetter,
+        serverHeartbeat,
         timestamp: Date.now(),
         summary: {
-          pending: pendingSnap.exists() ? Object.keys(pendingSnap.val()).length : 0,
-          processing: processingSnap.exists() ? Object.keys(processingSnap.val()).length : 0,
-          completed: completedSnap.exists() ? Object.keys(completedSnap.val()).length : 0,
-          failed: failedSnap.exists() ? Object.keys(failedSnap.val()).length : 0,
-          total: (pendingSnap.exists() ? Object.keys(pendingSnap.val()).length : 0) +
-                (processingSnap.exists() ? Object.keys(processingSnap.val()).length : 0)
+          scheduled: Object.keys(scheduled).length,
+          pending: Object.keys(pending).length,
+          processing: Object.keys(processing).length,
+          completed: Object.keys(completed).length,
+          failed: Object.keys(failed).length,
+          deadLetter: Object.keys(deadLetter).length,
+          total: Object.keys(pending).length + Object.keys(processing).length
         }
       };
     } catch (error) {
@@ -403,16 +1176,20 @@ export class QueueManager {
         success: false,
         error: (error as Error).message,
         timestamp: Date.now(),
+        scheduled: {},
         pending: {},
         processing: {},
         completed: {},
         failed: {},
+        deadLetter: {},
         serverHeartbeat: null,
         summary: {
+          scheduled: 0,
           pending: 0,
           processing: 0,
           completed: 0,
           failed: 0,
+          deadLetter: 0,
           total: 0
         }
       };
@@ -0,0 +1,50 @@
+import { MessagePriority } from './types';
+
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2
+};
+
+/**
+ * How long a message waits before it is promoted one priority class
+ */
+export const DEFAULT_PRIORITY_AGING_INTERVAL = 120000;
+
+/**
+ * Rank of a pending message after aging; lower ranks are sent first.
+ * A low priority message that has waited two aging intervals ranks with high priority.
+ * @param message - Pending queue record
+ * @param agingInterval - Milliseconds per promotion (0 disables aging)
+ * @param now - Reference time
+ * @returns Effective rank (0 = high)
+ */
+export function getEffectivePriority(message: any, agingInterval: number, now: number): number {
+  const rank = PRIORITY_RANK[message?.priority as MessagePriority] ?? PRIORITY_RANK.medium;
+  if (!agingInterval || agingInterval <= 0) {
+    return rank;
+  }
+
+  const waited = Math.max(0, now - (message?.queuedAt || now));
+  return Math.max(0, rank - Math.floor(waited / agingInterval));
+}
+
+/**
+ * Order pending message IDs as they will be processed:
+ * by effective priority, then first in first out
+ * @param messages - Pending messages keyed by ID
+ * @param agingInterval - Milliseconds per promotion (0 disables aging)
+ * @param now - Reference time
+ * @returns Sorted message IDs
+ */
+export function sortByPriority(
+  messages: Record<string, any>,
+  agingInterval: number = DEFAULT_PRIORITY_AGING_INTERVAL,
+  now: number = Date.now()
+): string[] {
+  return Object.keys(messages).sort((a, b) =>
+    getEffectivePriority(messages[a], agingInterval, now) - getEffectivePriority(messages[b], agingInterval, now) ||
+    (messages[a].queuedAt || 0) - (messages[b].queuedAt || 0) ||
+    a.localeCompare(b)
+  );
+}
\ No newline at end of file
@@ -0,0 +1,587 @@
+import { hostname } from 'os';
+import { ApiClient } from './ApiClient';
+import { WhatsAppConnection } from './WhatsAppConnection';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { RateLimiter } from './RateLimiter';
+import { normalizePhoneNumber } from './PhoneNumber';
+import { DEFAULT_PRIORITY_AGING_INTERVAL, sortByPriority } from './QueuePriority';
+import { claimRecord, isClaimed, releaseClaim } from './QueueClaim';
+import { classifyFailure, DEFAULT_BACKOFF_SCHEDULE, DEFAULT_RETRYABLE_FAILURES } from './FailureClassifier';
+import {
+  FailureType,
+  MediaMessage,
+  MediaStore,
+  QueuedMedia,
+  QueueStore,
+  QueueWorkerConfig,
+  QueueWorkerEvents,
+  QueueWorkerStats
+} from './types';
+
+interface WorkerSenders {
+  whatsappConnection?: WhatsAppConnection;
+  apiClient?: ApiClient;
+  mediaStore?: MediaStore;
+  rateLimiter?: RateLimiter;
+}
+
+interface ClaimedMessage {
+  id: string;
+  data: any;
+}
+
+interface SendOutcome {
+  messageId: string;
+  response?: any;
+}
+
+export class QueueWorker extends TypedEventEmitter<QueueWorkerEvents> {
+  private store: QueueStore;
+  private config: Required<QueueWorkerConfig>;
+  private senders: WorkerSenders;
+  private workerId: string;
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private isRunning = false;
+  private isPolling = false;
+  private stats: QueueWorkerStats;
+
+  constructor(
+    store: QueueStore,
+    senders: WorkerSenders,
+    config: QueueWorkerConfig = {}
+  ) {
+    super();
+    this.store = store;
+    this.senders = senders;
+    this.config = {
+      pollInterval: 2000,
+      batchSize: 10,
+      heartbeatInterval: 15000,
+      maxAttempts: 3,
+      messageDelay: 1000,
+      priorityAgingInterval: DEFAULT_PRIORITY_AGING_INTERVAL,
+      defaultCountryCode: '',
+      debug: false,
+      ...config,
+      retryPolicy: config.retryPolicy || {}
+    };
+    this.workerId = `${hostname()}-${process.pid}`;
+    this.stats = {
+      isRunning: false,
+      workerId: this.workerId,
+      processed: 0,
+      sent: 0,
+      failed: 0,
+      requeued: 0,
+      promoted: 0
+    };
+  }
+
+  /**
+   * Start polling the pending queue and publishing heartbeats
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    if (!this.senders.whatsappConnection && !this.senders.apiClient) {
+      throw new Error('Queue worker requires a WhatsApp connection or API client');
+    }
+
+    this.isRunning = true;
+    this.stats.isRunning = true;
+    this.stats.startedAt = Date.now();
+
+    await this.publishHeartbeat();
+    // Stopped while the first heartbeat was being written
+    if (!this.isRunning) {
+      return;
+    }
+    this.heartbeatTimer = setInterval(() => {
+      this.publishHeartbeat().catch(error => this.log('Heartbeat failed:', error.message));
+    }, this.config.heartbeatInterval);
+
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop processing and mark the server heartbeat as offline
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    this.stats.isRunning = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+
+    try {
+      await this.store.update({
+        'server_status/heartbeat/alive': false,
+        'server_status/heartbeat/connected': false,
+        'server_status/heartbeat/status': 'stopped',
+        'server_status/heartbeat/lastSeen': Date.now()
+      });
+    } catch (error) {
+      this.log('Failed to publish offline heartbeat:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Get worker statistics
+   * @returns Worker counters and state
+   */
+  getStats(): QueueWorkerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Process one batch of pending messages
+   * @returns Number of messages processed in this batch
+   */
+  async processPending(): Promise<number> {
+    if (this.isPolling) {
+      return 0;
+    }
+
+    this.isPolling = true;
+    let processed = 0;
+
+    try {
+      // Due messages become pending even while the sender is down, so status and estimates stay accurate
+      await this.promoteScheduled();
+
+      if (!this.isSenderReady()) {
+        return 0;
+      }
+
+      // The whole pending list is read so a new high priority message is not stuck behind older batches
+      const pending = await this.store.list('pending', { orderBy: 'queuedAt' });
+      const now = Date.now();
+
+      const messageIds = sortByPriority(pending, this.config.priorityAgingInterval)
+        .filter(id => !pending[id].nextAttemptAt || pending[id].nextAttemptAt <= now)
+        .filter(id => !isClaimed(pending[id], now))
+        .slice(0, this.config.batchSize);
+
+      for (const messageId of messageIds) {
+        if (!this.isRunning || !this.isSenderReady()) {
+          break;
+        }
+
+        // Over the rate limit: leave it pending for a later poll
+        const recipient = pending[messageId].number;
+        if (this.senders.rateLimiter && !this.senders.rateLimiter.tryAcquire(recipient)) {
+          continue;
+        }
+
+        const claimed = await this.claimMessage(messageId);
+        if (!claimed) {
+          // Another worker sends it, so this one did not use its token
+          this.senders.rateLimiter?.release(recipient);
+          continue;
+        }
+
+        await this.processMessage(claimed);
+        processed++;
+
+        if (this.config.messageDelay > 0) {
+          await this.delay(this.config.messageDelay);
+        }
+      }
+
+      return processed;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Move scheduled messages whose send time has passed to pending
+   * @returns Number of messages promoted
+   */
+  private async promoteScheduled(): Promise<number> {
+    const now = Date.now();
+    let promoted = 0;
+
+    try {
+      const due = await this.store.list('scheduled', { orderBy: 'sendAt', endAt: now });
+
+      for (const messageId of Object.keys(due)) {
+        // Claim it like a pending message so two workers do not both promote it,
+        // and leave it alone if it was rescheduled since the list was read
+        const path = `scheduled/${messageId}`;
+        const claim = await claimRecord(this.store, path, this.workerId, current => current.sendAt <= now);
+        if (claim.status !== 'claimed') {
+          continue;
+        }
+
+        try {
+          await this.store.update({
+            [path]: null,
+            [`pending/${messageId}`]: {
+              ...claim.record,
+              status: 'pending',
+              timestamp: now,
+              queuedAt: now
+            }
+          });
+        } catch (error) {
+          await releaseClaim(this.store, path, this.workerId).catch(() => undefined);
+          throw error;
+        }
+        promoted++;
+        this.stats.promoted++;
+        this.log(`⏰ Scheduled message ${messageId} is due, moved to pending`);
+      }
+    } catch (error) {
+      this.log('Failed to promote scheduled messages:', (error as Error).message);
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Claim a pending message and move it to processing. The claim is marked on the pending
+   * record first, so a worker that stops before the move leaves the message pending.
+   * @param messageId - Message ID to claim
+   * @returns Claimed message or null if another worker got it first
+   */
+  private async claimMessage(messageId: string): Promise<ClaimedMessage | null> {
+    const path = `pending/${messageId}`;
+
+    try {
+      const claim = await claimRecord(this.store, path, this.workerId);
+      if (claim.status !== 'claimed') {
+        return null;
+      }
+
+      const data = claim.record;
+      const startedAt = Date.now();
+      try {
+        await this.store.update({
+          [path]: null,
+          [`processing/${messageId}`]: {
+            ...data,
+            status: 'processing',
+            startedAt,
+            workerId: this.workerId
+          }
+        });
+      } catch (error) {
+        await releaseClaim(this.store, path, this.workerId).catch(() => undefined);
+        throw error;
+      }
+
+      return { id: messageId, data: { ...data, startedAt } };
+    } catch (error) {
+      this.log(`Failed to claim message ${messageId}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Send a claimed message and record the outcome
+   * @param claimed - Claimed message
+   */
+  private async processMessage(claimed: ClaimedMessage): Promise<void> {
+    const { id, data } = claimed;
+    const attempts = (data.attempts || 0) + 1;
+
+    try {
+      let outcome: SendOutcome;
+      try {
+        outcome = await this.send(data);
+      } catch (error) {
+        try {
+          await this.recordFailure(id, data, attempts, error);
+        } catch (storeError) {
+          await this.returnToPending(id, { ...data, attempts, lastError: (error as Error).message });
+          this.log(`Failed to record the failure of message ${id}:`, (storeError as Error).message);
+        }
+        return;
+      }
+
+      try {
+        await this.store.update({
+          [`processing/${id}`]: null,
+          [`completed/${id}`]: {
+            ...data,
+            status: 'sent',
+            attempts,
+            completedAt: Date.now(),
+            whatsappMessageId: outcome.messageId,
+            workerId: this.workerId
+          },
+          // Lets delivery/read receipts find their queue record
+          [`receipts/${outcome.messageId}/queueMessageId`]: id
+        });
+      } catch (error) {
+        // The message went out; requeueing it here would send it twice
+        this.log(`Message ${id} was sent but could not be marked completed; it stays in processing:`, (error as Error).message);
+      }
+      await this.releaseMedia(data.media);
+
+      this.stats.sent++;
+      this.log(`✅ Queued message ${id} sent`);
+      this.emit('message:sent', {
+        success: true,
+        method: 'queued',
+        messageId: id,
+        timestamp: Date.now(),
+        key: outcome.response
+      });
+    } finally {
+      this.stats.processed++;
+      this.stats.lastProcessed = Date.now();
+    }
+  }
+
+  /**
+   * Requeue a failed send with backoff, or dead-letter it
+   * @param id - Message ID
+   * @param data - Processing record
+   * @param attempts - Attempts including this one
+   * @param error - Send error
+   */
+  private async recordFailure(id: string, data: any, attempts: number, error: unknown): Promise<void> {
+    const errorMessage = (error as Error).message;
+    const errorType = classifyFailure(error);
+    const failedAt = Date.now();
+    const errorHistory = [
+      ...(data.errorHistory || []),
+      { attempt: attempts, error: errorMessage, errorType, failedAt }
+    ];
+    const retryable = this.retryableErrors.includes(errorType);
+
+    if (retryable && attempts < this.maxAttempts) {
+      const nextAttemptAt = failedAt + this.getBackoffDelay(attempts);
+      await this.store.update({
+        [`processing/${id}`]: null,
+        [`pending/${id}`]: {
+          ...data,
+          status: 'pending',
+          attempts,
+          retryCount: attempts,
+          lastError: errorMessage,
+          lastErrorType: errorType,
+          errorHistory,
+          nextAttemptAt,
+          startedAt: null
+        }
+      });
+      this.stats.requeued++;
+      this.log(`🔁 Message ${id} failed with ${errorType} (attempt ${attempts}), retrying at ${new Date(nextAttemptAt).toISOString()}:`, errorMessage);
+    } else {
+      await this.store.update({
+        [`processing/${id}`]: null,
+        [`dead_letter/${id}`]: {
+          ...data,
+          status: 'dead_letter',
+          attempts,
+          retryCount: attempts,
+          error: errorMessage,
+          errorType,
+          errorHistory,
+          reason: retryable ? 'max_attempts' : 'non_retryable',
+          failedAt,
+          deadLetteredAt: failedAt,
+          nextAttemptAt: null,
+          startedAt: null,
+          workerId: this.workerId
+        }
+      });
+      // Media is kept so the message can still be requeued from the dead-letter queue
+      this.stats.failed++;
+      this.log(`❌ Message ${id} dead-lettered (${errorType}):`, errorMessage);
+      this.emit('message:failed', {
+        number: data.number,
+        error: errorMessage,
+        messageId: id,
+        method: 'queued',
+        errorType
+      });
+    }
+  }
+
+  /**
+   * Put a message back in pending after its outcome could not be recorded, so it is not
+   * left in processing where no worker picks it up again
+   * @param id - Message ID
+   * @param data - Processing record
+   */
+  private async returnToPending(id: string, data: any): Promise<void> {
+    try {
+      await this.store.update({
+        [`processing/${id}`]: null,
+        [`pending/${id}`]: { ...data, status: 'pending', startedAt: null }
+      });
+    } catch (error) {
+      this.log(`Message ${id} stays in processing; returning it to pending failed:`, (error as Error).message);
+    }
+  }
+
+  private get maxAttempts(): number {
+    return this.config.retryPolicy.maxAttempts ?? this.config.maxAttempts;
+  }
+
+  private get retryableErrors(): FailureType[] {
+    return this.config.retryPolicy.retryableErrors || DEFAULT_RETRYABLE_FAILURES;
+  }
+
+  /**
+   * Delay before the next attempt from the backoff schedule
+   * @param attempts - Attempts made so far
+   * @returns Delay in milliseconds
+   */
+  private getBackoffDelay(attempts: number): number {
+    const schedule = this.config.retryPolicy.backoffSchedule || DEFAULT_BACKOFF_SCHEDULE;
+    if (schedule.length === 0) {
+      return 0;
+    }
+    return schedule[Math.min(attempts - 1, schedule.length - 1)];
+  }
+
+  /**
+   * Send message through the configured transport
+   * @param data - Queue record
+   * @returns Send outcome
+   */
+  private async send(data: any): Promise<SendOutcome> {
+    // Records can come from other producers; an invalid number fails as invalid_number
+    if (data.jidType !== 'group') {
+      data = { ...data, number: normalizePhoneNumber(data.number, this.config.defaultCountryCode || undefined) };
+    }
+
+    if (data.media) {
+      return this.sendMedia(data);
+    }
+
+    if (this.senders.whatsappConnection) {
+      const result = await this.senders.whatsappConnection.sendMessage(data.number, data.content || data.message);
+      return { messageId: result.messageId, response: result.key };
+    }
+
+    const result = data.content
+      ? await this.senders.apiClient!.sendContent(data.number, data.content, data.options || {})
+      : await this.senders.apiClient!.sendMessage(data.number, data.message, data.options || {});
+    return { messageId: result.messageId, response: result.response };
+  }
+
+  /**
+   * Resolve a queued media reference and send it through the configured transport
+   * @param data - Queue record with media
+   * @returns Send outcome
+   */
+  private async sendMedia(data: any): Promise<SendOutcome> {
+    const media = await this.resolveMedia(data.media as QueuedMedia);
+
+    if (this.senders.whatsappConnection) {
+      const result = await this.senders.whatsappConnection.sendMedia(data.number, media);
+      return { messageId: result.messageId, response: result.key };
+    }
+
+    const result = await this.senders.apiClient!.sendMedia(data.number, media, data.options || {});
+    return { messageId: result.messageId, response: result.response };
+  }
+
+  private async resolveMedia(media: QueuedMedia): Promise<MediaMessage> {
+    let source: Buffer | string;
+
+    if (media.ref) {
+      if (!this.senders.mediaStore) {
+        throw new Error('Queued media reference found but no media store is configured');
+      }
+      source = await this.senders.mediaStore.load(media.ref);
+    } else if (media.url || media.path) {
+      source = (media.url || media.path)!;
+    } else {
+      throw new Error('Queued media has no source');
+    }
+
+    return {
+      type: media.type,
+      source,
+      mimetype: media.mimetype,
+      caption: media.caption,
+      filename: media.filename,
+      ptt: media.ptt
+    };
+  }
+
+  private async releaseMedia(media?: QueuedMedia): Promise<void> {
+    if (!media?.ref || !this.senders.mediaStore) {
+      return;
+    }
+
+    try {
+      await this.senders.mediaStore.remove(media.ref);
+    } catch (error) {
+      this.log(`Failed to remove media ${media.ref}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Check whether the transport can currently send
+   * @returns True if messages can be sent
+   */
+  private isSenderReady(): boolean {
+    if (this.senders.whatsappConnection) {
+      const status = this.senders.whatsappConnection.getConnectionStatus();
+      return status.isConnected && status.isAuthenticated;
+    }
+    return !!this.senders.apiClient;
+  }
+
+  /**
+   * Publish the heartbeat read by QueueManager.getQueueStatus
+   */
+  private async publishHeartbeat(): Promise<void> {
+    const connected = this.isSenderReady();
+    await this.store.write('server_status/heartbeat', {
+      alive: this.isRunning,
+      connected,
+      status: connected ? 'processing' : 'waiting_for_connection',
+      serverId: this.workerId,
+      lastSeen: Date.now(),
+      lastProcessed: this.stats.lastProcessed || null,
+      nextProcessingTime: Date.now() + this.config.pollInterval
+    });
+  }
+
+  private schedulePoll(delay: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.processPending();
+      } catch (error) {
+        this.log('Queue poll failed:', (error as Error).message);
+      }
+      this.schedulePoll(this.config.pollInterval);
+    }, delay);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private log(...args: any[]): void {
+    if (this.config.debug) {
+      console.log('[QueueWorker]', ...args);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { RateLimitConfig } from './types';
+
+function withDefaults(config: RateLimitConfig): Required<RateLimitConfig> {
+  return {
+    messagesPerMinute: 20,
+    perRecipientInterval: 0,
+    ...config,
+    burst: config.burst ?? config.messagesPerMinute ?? 20
+  };
+}
+
+/**
+ * Token bucket with an optional minimum interval per recipient.
+ * Tokens refill continuously at messagesPerMinute; up to `burst` can be spent at once.
+ */
+export class RateLimiter {
+  private config: Required<RateLimitConfig>;
+  private tokens: number;
+  private lastRefill: number;
+  private lastSentTo = new Map<string, number>();
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = withDefaults(config);
+    this.tokens = this.config.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Change the limits; tokens already spent stay spent
+   * @param config - New limits
+   */
+  configure(config: RateLimitConfig = {}): void {
+    this.refill();
+    this.config = withDefaults(config);
+    this.tokens = Math.min(this.config.burst, this.tokens);
+  }
+
+  /**
+   * Take a token if one is available and the recipient is not throttled
+   * @param recipient - Phone number or JID; omit to check only the global limit
+   * @returns True if the message may be sent now
+   */
+  tryAcquire(recipient?: string): boolean {
+    if (this.getWaitTime(recipient) > 0) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    if (recipient && this.config.perRecipientInterval > 0) {
+      this.lastSentTo.set(recipient, Date.now());
+      this.pruneRecipients();
+    }
+    return true;
+  }
+
+  /**
+   * Give back a token taken by tryAcquire for a message that was not sent
+   * @param recipient - Recipient passed to tryAcquire
+   */
+  release(recipient?: string): void {
+    this.refill();
+    this.tokens = Math.min(this.config.burst, this.tokens + 1);
+    // Any earlier send to this recipient was at least perRecipientInterval ago, or tryAcquire would have failed
+    if (recipient) {
+      this.lastSentTo.delete(recipient);
+    }
+  }
+
+  /**
+   * Wait until a message may be sent, then take a token
+   * @param recipient - Phone number or JID
+   */
+  async acquire(recipient?: string): Promise<void> {
+    while (!this.tryAcquire(recipient)) {
+      await new Promise(resolve => setTimeout(resolve, Math.max(this.getWaitTime(recipient), 10)));
+    }
+  }
+
+  /**
+   * Time until tryAcquire would succeed
+   * @param recipient - Phone number or JID
+   * @returns Milliseconds to wait (0 if a message may be sent now)
+   */
+  getWaitTime(recipient?: string): number {
+    this.refill();
+
+    const msPerToken = 60000 / this.config.messagesPerMinute;
+    const globalWait = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * msPerToken);
+
+    const lastSent = recipient ? this.lastSentTo.get(recipient) : undefined;
+    const recipientWait = lastSent !== undefined
+      ? Math.max(0, lastSent + this.config.perRecipientInterval - Date.now())
+      : 0;
+
+    return Math.max(globalWait, recipientWait);
+  }
+
+  /**
+   * Tokens currently available, for status reporting
+   */
+  getAvailableTokens(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / 60000) * this.config.messagesPerMinute;
+    this.tokens = Math.min(this.config.burst, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Forget recipients whose interval has passed so the map does not grow unbounded
+   */
+  private pruneRecipients(): void {
+    if (this.lastSentTo.size < 1000) {
+      return;
+    }
+
+    const cutoff = Date.now() - this.config.perRecipientInterval;
+    for (const [recipient, sentAt] of this.lastSentTo) {
+      if (sentAt < cutoff) {
+        this.lastSentTo.delete(recipient);
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { WhatsAppRegistration } from './types';
+
+/**
+ * Remembers isOnWhatsApp lookups so repeated sends to a number do not query WhatsApp each time
+ */
+export class RegistrationCache {
+  private ttl: number;
+  private entries = new Map<string, WhatsAppRegistration>();
+
+  /**
+   * @param ttl - Milliseconds a lookup stays valid (0 disables caching)
+   */
+  constructor(ttl: number) {
+    this.ttl = ttl;
+  }
+
+  /**
+   * @param number - E.164 phone number
+   * @returns The cached lookup, or undefined if missing or expired
+   */
+  get(number: string): WhatsAppRegistration | undefined {
+    const entry = this.entries.get(number);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.now() - entry.checkedAt >= this.ttl) {
+      this.entries.delete(number);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * @param registrations - Fresh lookups to remember
+   */
+  set(registrations: WhatsAppRegistration[]): void {
+    if (this.ttl <= 0) {
+      return;
+    }
+    for (const registration of registrations) {
+      this.entries.set(registration.number, registration);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
\ No newline at end of file
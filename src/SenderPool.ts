@@ -0,0 +1,216 @@
+import { createHash } from 'crypto';
+import { SenderPoolConfig, SenderPoolSessionStats, SenderPoolStrategy } from './types';
+
+const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
+const DEFAULT_FAILURE_COOLDOWN = 5 * 60 * 1000;
+// Sticky assignments are dropped oldest-first beyond this many recipients
+const MAX_STICKY_RECIPIENTS = 10000;
+
+interface SenderState {
+  loggedOut: boolean;
+  inFlight: number;
+  sent: number;
+  failed: number;
+  consecutiveFailures: number;
+  cooldownUntil: number | null;
+}
+
+/**
+ * Picks the sending session for pooled sends and tracks each session's health.
+ * A session leaves the pool when it is logged out or after repeated failures,
+ * and rejoins when it reconnects or its cooldown ends.
+ */
+export class SenderPool {
+  private strategy: SenderPoolStrategy;
+  private maxConsecutiveFailures: number;
+  private failureCooldown: number;
+  private senders = new Map<string, SenderState>();
+  private sticky = new Map<string, string>();
+  private cursor = 0;
+
+  constructor(config: SenderPoolConfig = {}) {
+    this.strategy = config.strategy || 'round-robin';
+    this.maxConsecutiveFailures = config.maxConsecutiveFailures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES;
+    this.failureCooldown = config.failureCooldown ?? DEFAULT_FAILURE_COOLDOWN;
+  }
+
+  add(sessionId: string): void {
+    this.senders.set(sessionId, {
+      loggedOut: false,
+      inFlight: 0,
+      sent: 0,
+      failed: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: null
+    });
+  }
+
+  remove(sessionId: string): void {
+    this.senders.delete(sessionId);
+    for (const [recipient, assigned] of this.sticky) {
+      if (assigned === sessionId) {
+        this.sticky.delete(recipient);
+      }
+    }
+  }
+
+  /**
+   * Pick a session. Available sessions come first; if none is available, any session
+   * that is not logged out is used so the message waits in its queue.
+   * @param recipient - Number or group the message goes to (for sticky routing)
+   * @param isConnected - Whether a session's connection can send right now
+   * @param exclude - Sessions already tried for this message
+   * @param idempotencyKey - Sends with the same key go to the same session, since each session
+   * remembers only the keys it has seen; a retry of a failed send follows the same order of sessions
+   * @returns Session ID, or undefined if every session is logged out or excluded
+   */
+  select(
+    recipient: string | undefined,
+    isConnected: (sessionId: string) => boolean,
+    exclude: string[] = [],
+    idempotencyKey?: string
+  ): string | undefined {
+    const eligible = [...this.senders.keys()].filter(id => !exclude.includes(id) && !this.senders.get(id)!.loggedOut);
+    if (idempotencyKey && eligible.length > 0) {
+      return this.byKey(idempotencyKey, eligible);
+    }
+    const available = eligible.filter(id => this.isAvailable(id, isConnected));
+    const candidates = available.length > 0 ? available : eligible;
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    if (this.strategy === 'sticky' && recipient) {
+      const assigned = this.sticky.get(recipient);
+      if (assigned && candidates.includes(assigned)) {
+        return assigned;
+      }
+      const sessionId = this.leastLoaded(candidates);
+      this.assign(recipient, sessionId);
+      return sessionId;
+    }
+
+    return this.strategy === 'least-loaded' ? this.leastLoaded(candidates) : this.nextInTurn(candidates);
+  }
+
+  /**
+   * @param sessionId - Session
+   * @param isConnected - Whether a session's connection can send right now
+   */
+  isAvailable(sessionId: string, isConnected: (sessionId: string) => boolean): boolean {
+    const sender = this.senders.get(sessionId);
+    if (!sender || sender.loggedOut) {
+      return false;
+    }
+    if (sender.cooldownUntil !== null && sender.cooldownUntil > Date.now()) {
+      return false;
+    }
+    return isConnected(sessionId);
+  }
+
+  begin(sessionId: string): void {
+    const sender = this.senders.get(sessionId);
+    if (sender) sender.inFlight++;
+  }
+
+  end(sessionId: string): void {
+    const sender = this.senders.get(sessionId);
+    if (sender) sender.inFlight = Math.max(0, sender.inFlight - 1);
+  }
+
+  recordSuccess(sessionId: string): void {
+    const sender = this.senders.get(sessionId);
+    if (!sender) return;
+    sender.sent++;
+    sender.consecutiveFailures = 0;
+    sender.cooldownUntil = null;
+  }
+
+  /**
+   * @returns True if this failure took the session out of the pool
+   */
+  recordFailure(sessionId: string): boolean {
+    const sender = this.senders.get(sessionId);
+    if (!sender) return false;
+    sender.failed++;
+    sender.consecutiveFailures++;
+
+    const coolingDown = sender.cooldownUntil !== null && sender.cooldownUntil > Date.now();
+    if (sender.consecutiveFailures < this.maxConsecutiveFailures || coolingDown) {
+      return false;
+    }
+    // After a cooldown one more failure is enough to send the session back out
+    sender.cooldownUntil = Date.now() + this.failureCooldown;
+    return true;
+  }
+
+  /**
+   * @returns True if the session was in the pool until now
+   */
+  markLoggedOut(sessionId: string): boolean {
+    const sender = this.senders.get(sessionId);
+    if (!sender || sender.loggedOut) return false;
+    sender.loggedOut = true;
+    return true;
+  }
+
+  markConnected(sessionId: string): void {
+    const sender = this.senders.get(sessionId);
+    if (!sender) return;
+    sender.loggedOut = false;
+    sender.consecutiveFailures = 0;
+    sender.cooldownUntil = null;
+  }
+
+  /**
+   * @param isConnected - Whether a session's connection can send right now
+   */
+  getStats(isConnected: (sessionId: string) => boolean): SenderPoolSessionStats[] {
+    return [...this.senders.entries()].map(([sessionId, sender]) => ({
+      sessionId,
+      available: this.isAvailable(sessionId, isConnected),
+      loggedOut: sender.loggedOut,
+      inFlight: sender.inFlight,
+      sent: sender.sent,
+      failed: sender.failed,
+      consecutiveFailures: sender.consecutiveFailures,
+      cooldownUntil: sender.cooldownUntil !== null && sender.cooldownUntil > Date.now() ? sender.cooldownUntil : null
+    }));
+  }
+
+  private nextInTurn(candidates: string[]): string {
+    const order = [...this.senders.keys()];
+    for (let step = 0; step < order.length; step++) {
+      const index = (this.cursor + step) % order.length;
+      if (candidates.includes(order[index])) {
+        this.cursor = index + 1;
+        return order[index];
+      }
+    }
+    return candidates[0];
+  }
+
+  /**
+   * Rendezvous hashing: the key keeps its session while that session stays in the pool
+   */
+  private byKey(key: string, candidates: string[]): string {
+    const weight = (id: string) => createHash('sha256').update(`${key}\0${id}`).digest('hex');
+    return candidates.reduce((best, id) => weight(id) > weight(best) ? id : best);
+  }
+
+  private leastLoaded(candidates: string[]): string {
+    return candidates.reduce((best, id) => {
+      const a = this.senders.get(best)!;
+      const b = this.senders.get(id)!;
+      return b.inFlight < a.inFlight || (b.inFlight === a.inFlight && b.sent < a.sent) ? id : best;
+    });
+  }
+
+  private assign(recipient: string, sessionId: string): void {
+    this.sticky.delete(recipient);
+    this.sticky.set(recipient, sessionId);
+    if (this.sticky.size > MAX_STICKY_RECIPIENTS) {
+      this.sticky.delete(this.sticky.keys().next().value as string);
+    }
+  }
+}
\ No newline at end of file
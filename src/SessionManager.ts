@@ -0,0 +1,379 @@
+import { Whaple } from './Whaple';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { normalizePhoneNumber } from './PhoneNumber';
+import { SenderPool } from './SenderPool';
+import { classifyFailure } from './FailureClassifier';
+import {
+  ConfigurationError,
+  FailureType,
+  MediaMessage,
+  MessageContent,
+  ScheduleMessageOptions,
+  SendMessageOptions,
+  SendMessageResult,
+  SendTemplateOptions,
+  SenderPoolConfig,
+  SenderPoolSessionStats,
+  SessionInfo,
+  SessionManagerEvents,
+  SessionUnavailableReason,
+  TemplateVariables,
+  ValidationError,
+  VCardFields,
+  WhapleConfig,
+  WhapleError
+} from './types';
+
+type SessionConfig = WhapleConfig & { useDirectWhatsApp?: boolean };
+
+interface Session {
+  client: Whaple;
+  config: SessionConfig;
+  createdAt: number;
+}
+
+// Custom stores hold one account's data; sharing them would mix queues or log in twice
+const PER_SESSION_STORES = ['queueStore', 'authStore'] as const;
+
+// Failures caused by the message or recipient; another session would fail the same way
+const RECIPIENT_FAILURES: FailureType[] = ['not_on_whatsapp', 'invalid_number'];
+
+/**
+ * Runs several WhatsApp accounts in one process. Each session is a Whaple instance with its
+ * own auth state, queue (message_queue/sessions/{sessionId}), worker, status and QR code.
+ * With a sender pool, sends that name no session are spread across the healthy sessions.
+ */
+export class SessionManager extends TypedEventEmitter<SessionManagerEvents> {
+  private defaults: SessionConfig;
+  private sessions = new Map<string, Session>();
+  private pool?: SenderPool;
+
+  /**
+   * @param defaults - Config shared by all sessions (direct mode unless useDirectWhatsApp is false)
+   * @param pool - Load balancing and failover for sends without sessionId or from
+   */
+  constructor(defaults: SessionConfig = {}, pool?: SenderPoolConfig) {
+    super();
+    this.defaults = { useDirectWhatsApp: true, ...defaults };
+    this.pool = pool ? new SenderPool(pool) : undefined;
+  }
+
+  /**
+   * Create a session; call connectSession to log in
+   * @param sessionId - Session name (letters, digits, - and _)
+   * @param config - Overrides for this session's config
+   * @returns The session's Whaple instance
+   */
+  createSession(sessionId: string, config: SessionConfig = {}): Whaple {
+    if (this.sessions.has(sessionId)) {
+      throw new ValidationError(`Session "${sessionId}" already exists`, 'SESSION_EXISTS');
+    }
+
+    const sessionConfig: SessionConfig = { ...this.defaults, ...config, sessionId };
+    for (const key of PER_SESSION_STORES) {
+      const store = sessionConfig[key];
+      if (typeof store === 'object' && [...this.sessions.values()].some(session => session.config[key] === store)) {
+        throw new ConfigurationError(`Sessions cannot share a ${key} instance; pass a separate one to each session`);
+      }
+    }
+
+    const client = new Whaple(sessionConfig);
+    client.on('qr', (qr) => this.emit('session:qr', { sessionId, qr }));
+    client.on('connected', (userInfo) => this.emit('session:connected', { sessionId, userInfo }));
+    client.on('disconnected', (info) => this.emit('session:disconnected', { sessionId, info }));
+    client.on('loggedOut', () => this.emit('session:loggedOut', { sessionId }));
+    client.on('message', (message) => this.emit('session:message', { sessionId, message }));
+
+    this.sessions.set(sessionId, { client, config: sessionConfig, createdAt: Date.now() });
+    if (this.pool) {
+      this.pool.add(sessionId);
+      this.watchHealth(sessionId, client);
+    }
+    this.emit('session:created', { sessionId });
+    return client;
+  }
+
+  /**
+   * @param sessionId - Session name
+   * @returns The session's Whaple instance
+   */
+  getSession(sessionId: string): Whaple {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new ValidationError(`Session "${sessionId}" does not exist`, 'SESSION_NOT_FOUND');
+    }
+    return session.client;
+  }
+
+  /**
+   * @param sessionId - Session name
+   */
+  hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * @returns Status, QR code and connected number of every session, in creation order
+   */
+  listSessions(): SessionInfo[] {
+    return [...this.sessions.entries()].map(([sessionId, session]) => ({
+      sessionId,
+      number: this.connectedNumber(session.client),
+      status: session.client.getWhatsAppConnectionStatus(),
+      qr: session.client.getCurrentQR(),
+      createdAt: session.createdAt
+    }));
+  }
+
+  /**
+   * Connect a session to WhatsApp and start its queue worker
+   * @param sessionId - Session name
+   */
+  async connectSession(sessionId: string): Promise<void> {
+    await this.getSession(sessionId).connectToWhatsApp();
+  }
+
+  /**
+   * Connect every session; one failing does not stop the others
+   */
+  async connectAll(): Promise<void> {
+    const sessionIds = [...this.sessions.keys()];
+    const results = await Promise.allSettled(sessionIds.map(sessionId => this.connectSession(sessionId)));
+    const failed = sessionIds.filter((_sessionId, index) => results[index].status === 'rejected');
+
+    if (failed.length > 0) {
+      throw new WhapleError(`Failed to connect sessions: ${failed.join(', ')}`, 'SESSION_CONNECT_FAILED');
+    }
+  }
+
+  /**
+   * Disconnect a session and release its resources. Its auth state is kept, so
+   * creating the session again reconnects without a new QR scan.
+   * @param sessionId - Session name
+   * @returns True if a session was removed
+   */
+  async removeSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(sessionId);
+    this.pool?.remove(sessionId);
+    await session.client.cleanup();
+    session.client.removeAllListeners();
+    this.emit('session:removed', { sessionId });
+    return true;
+  }
+
+  /**
+   * @returns Health and load of each pooled session; empty without a sender pool
+   */
+  getPoolStats(): SenderPoolSessionStats[] {
+    return this.pool ? this.pool.getStats(sessionId => this.isConnected(sessionId)) : [];
+  }
+
+  /**
+   * Pick the sending session: `sessionId`, else `from` as a session ID or connected number,
+   * else the only session. Sends through the sender pool do not use this.
+   * @param options - Send options
+   */
+  resolveSession(options: SendMessageOptions = {}): Whaple {
+    if (options.sessionId) {
+      return this.getSession(options.sessionId);
+    }
+
+    if (options.from) {
+      if (this.sessions.has(options.from)) {
+        return this.getSession(options.from);
+      }
+      const number = this.tryNormalize(options.from, this.defaults.defaultCountryCode);
+      const match = number
+        ? [...this.sessions.values()].find(session => this.connectedNumber(session.client) === number)
+        : undefined;
+      if (!match) {
+        throw new ValidationError(`No session sends from ${options.from}`, 'SESSION_NOT_FOUND');
+      }
+      return match.client;
+    }
+
+    if (this.sessions.size === 1) {
+      return [...this.sessions.values()][0].client;
+    }
+    throw new ValidationError(
+      this.sessions.size === 0 ? 'No sessions have been created' : 'Pass sessionId or from to pick the sending session',
+      'SESSION_REQUIRED'
+    );
+  }
+
+  async sendMessage(number: string, message: string | MessageContent, options: SendMessageOptions = {}): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.sendMessage(number, message, options));
+  }
+
+  async sendMedia(number: string, media: MediaMessage, options: SendMessageOptions = {}): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.sendMedia(number, media, options));
+  }
+
+  async sendLocation(
+    number: string,
+    location: { lat: number; lng: number; name?: string; address?: string },
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.sendLocation(number, location, options));
+  }
+
+  async sendContact(number: string, contact: string | VCardFields, options: SendMessageOptions = {}): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.sendContact(number, contact, options));
+  }
+
+  async sendTemplate(
+    number: string,
+    name: string,
+    variables: TemplateVariables = {},
+    options: SendTemplateOptions = {}
+  ): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.sendTemplate(number, name, variables, options));
+  }
+
+  async sendToGroup(
+    groupId: string,
+    content: string | MediaMessage | MessageContent,
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    return await this.dispatch(groupId, options, client => client.sendToGroup(groupId, content, options));
+  }
+
+  async queueMessage(number: string, message: string | MessageContent, options: SendMessageOptions = {}): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.queueMessage(number, message, options));
+  }
+
+  async scheduleMessage(
+    number: string,
+    message: string | MessageContent,
+    options: ScheduleMessageOptions
+  ): Promise<SendMessageResult> {
+    return await this.dispatch(number, options, client => client.scheduleMessage(number, message, options));
+  }
+
+  /**
+   * Remove every session
+   */
+  async cleanup(): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.removeSession(sessionId);
+    }
+  }
+
+  /**
+   * Send through the session named in the options, or let the pool pick one.
+   * A pooled send that throws is retried on the next session.
+   */
+  private async dispatch(
+    recipient: string,
+    options: SendMessageOptions,
+    send: (client: Whaple) => Promise<SendMessageResult>
+  ): Promise<SendMessageResult> {
+    if (!this.pool || options.sessionId || options.from) {
+      const client = this.resolveSession(options);
+      return { ...(await send(client)), sessionId: client.getSessionId() };
+    }
+
+    const key = this.tryNormalize(recipient, this.defaults.defaultCountryCode) || recipient;
+    const tried: string[] = [];
+    let lastError: unknown;
+
+    for (;;) {
+      const sessionId = this.pool.select(key, id => this.isConnected(id), tried, options.idempotencyKey);
+      if (!sessionId) {
+        throw lastError || new WhapleError('No session is available to send from', 'SESSION_UNAVAILABLE');
+      }
+
+      tried.push(sessionId);
+      this.pool.begin(sessionId);
+      try {
+        return { ...(await send(this.getSession(sessionId))), sessionId };
+      } catch (error) {
+        if (error instanceof WhapleError || RECIPIENT_FAILURES.includes(classifyFailure(error))) {
+          throw error;
+        }
+        lastError = error;
+      } finally {
+        this.pool.end(sessionId);
+      }
+    }
+  }
+
+  private watchHealth(sessionId: string, client: Whaple): void {
+    const pool = this.pool!;
+    const recordFailure = () => {
+      if (pool.recordFailure(sessionId)) {
+        this.failover(sessionId, 'send_failures');
+      }
+    };
+
+    client.on('connected', () => pool.markConnected(sessionId));
+    client.on('loggedOut', () => {
+      if (pool.markLoggedOut(sessionId)) {
+        this.failover(sessionId, 'logged_out');
+      }
+    });
+    client.on('message:sent', () => pool.recordSuccess(sessionId));
+    client.on('message:failed', (event) => {
+      if (!RECIPIENT_FAILURES.includes(event.errorType || classifyFailure(event.error))) {
+        recordFailure();
+      }
+    });
+    // Direct sends that fail are queued rather than thrown. 'rate_limited' decisions are the
+    // session's own rate limiter holding sends back, not WhatsApp refusing them.
+    client.on('routing:decision', (decision) => {
+      if (decision.reason === 'direct_send_failed') {
+        recordFailure();
+      }
+    });
+  }
+
+  /**
+   * Take a session out of the pool and hand its pending messages to an available session
+   */
+  private failover(sessionId: string, reason: SessionUnavailableReason): void {
+    this.emit('session:unavailable', { sessionId, reason });
+
+    const isConnected = (id: string) => this.isConnected(id);
+    const toSessionId = this.pool!.select(undefined, isConnected, [sessionId]);
+    if (!toSessionId || !this.pool!.isAvailable(toSessionId, isConnected)) {
+      // Nowhere better to send from; the messages wait in this session's queue
+      return;
+    }
+
+    this.getSession(sessionId).transferPendingMessages(this.getSession(toSessionId))
+      .then((moved) => this.emit('session:failover', { fromSessionId: sessionId, toSessionId, moved }))
+      .catch((error) => {
+        if (this.defaults.debug) {
+          console.warn(`Failover from session ${sessionId} failed:`, (error as Error).message);
+        }
+      });
+  }
+
+  private isConnected(sessionId: string): boolean {
+    const status = this.sessions.get(sessionId)?.client.getWhatsAppConnectionStatus();
+    if (status === null) {
+      // API-mode sessions have no local connection to check
+      return true;
+    }
+    return !!status?.isConnected && !!status.isAuthenticated;
+  }
+
+  private connectedNumber(client: Whaple): string | undefined {
+    const id: string | undefined = client.getWhatsAppConnectionStatus()?.userInfo?.id;
+    // Account JIDs carry a device suffix: 14155552671:12@s.whatsapp.net
+    return id ? this.tryNormalize(`+${id.split(/[:@]/)[0]}`) : undefined;
+  }
+
+  private tryNormalize(number: string, defaultCountryCode?: string): string | undefined {
+    try {
+      return normalizePhoneNumber(number, defaultCountryCode);
+    } catch {
+      return undefined;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,165 @@
+import {
+  MessageTemplate,
+  QueueStore,
+  StoredTemplate,
+  TemplateVariables,
+  ValidationError
+} from './types';
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TEMPLATE_NAME = /^[A-Za-z0-9_-]+$/;
+const LOCALE = /^[A-Za-z]{2,3}([-_][A-Za-z0-9]+)*$/;
+
+/**
+ * Named message templates with {{variable}} placeholders and per-locale text.
+ * Templates live in a QueueStore, so a Firebase-backed registry can be edited
+ * in the console and takes effect on the next send.
+ */
+export class TemplateRegistry {
+  private store: QueueStore;
+  private rootPath: string;
+  private defaultLocale: string;
+
+  constructor(store: QueueStore, rootPath: string = 'templates', defaultLocale: string = 'en') {
+    this.store = store;
+    this.rootPath = rootPath;
+    this.defaultLocale = defaultLocale;
+  }
+
+  /**
+   * Add or replace a template
+   * @param name - Template name (letters, digits, - and _)
+   * @param template - Text per locale and an optional fallback locale
+   * @returns The stored template
+   */
+  async register(name: string, template: MessageTemplate): Promise<StoredTemplate> {
+    if (!name || !TEMPLATE_NAME.test(name)) {
+      throw new ValidationError('Template name may only contain letters, digits, - and _');
+    }
+
+    const locales = template?.locales || {};
+    if (Object.keys(locales).length === 0) {
+      throw new ValidationError(`Template "${name}" needs at least one locale`);
+    }
+    for (const [locale, text] of Object.entries(locales)) {
+      if (!LOCALE.test(locale)) {
+        throw new ValidationError(`Template "${name}" has an invalid locale: ${locale}`);
+      }
+      if (typeof text !== 'string' || text.length === 0) {
+        throw new ValidationError(`Template "${name}" has no text for locale ${locale}`);
+      }
+      this.validatePlaceholders(name, locale, text);
+    }
+
+    const defaultLocale = template.defaultLocale || Object.keys(locales)[0];
+    if (!locales[defaultLocale]) {
+      throw new ValidationError(`Template "${name}" has no text for its default locale ${defaultLocale}`);
+    }
+
+    const stored: StoredTemplate = { name, locales: { ...locales }, defaultLocale, updatedAt: Date.now() };
+    await this.store.write(this.templatePath(name), stored);
+    return stored;
+  }
+
+  /**
+   * @param name - Template name
+   * @returns The template, or null if it does not exist
+   */
+  async get(name: string): Promise<StoredTemplate | null> {
+    const template = await this.store.read(this.templatePath(name));
+    return template ? { ...template, name } : null;
+  }
+
+  /**
+   * @returns All templates, ordered by name
+   */
+  async list(): Promise<StoredTemplate[]> {
+    const templates = await this.store.list(this.rootPath);
+    return Object.entries(templates)
+      .map(([name, template]) => ({ ...template, name }) as StoredTemplate)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * @param name - Template name
+   * @returns True if a template was removed
+   */
+  async remove(name: string): Promise<boolean> {
+    const existing = await this.store.read(this.templatePath(name));
+    if (!existing) {
+      return false;
+    }
+
+    await this.store.write(this.templatePath(name), null);
+    return true;
+  }
+
+  /**
+   * Fill in a template's placeholders
+   * @param name - Template name
+   * @param variables - Placeholder values
+   * @param locale - Preferred locale; falls back to the base language, then the template's default
+   * @returns The rendered text and the locale that was used
+   */
+  async render(
+    name: string,
+    variables: TemplateVariables = {},
+    locale?: string
+  ): Promise<{ text: string; locale: string }> {
+    const template = await this.get(name);
+    if (!template) {
+      throw new ValidationError(`Template "${name}" does not exist`);
+    }
+
+    const resolved = this.resolveLocale(template, locale);
+    if (!resolved) {
+      throw new ValidationError(`Template "${name}" has no text for locale ${locale || this.defaultLocale}`);
+    }
+
+    const text = template.locales[resolved];
+    const missing = [...new Set(this.placeholders(text))]
+      .filter(variable => variables[variable] === undefined || variables[variable] === null);
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing variables for template "${name}": ${missing.join(', ')}`);
+    }
+
+    return {
+      text: text.replace(PLACEHOLDER, (_match, variable: string) => String(variables[variable])),
+      locale: resolved
+    };
+  }
+
+  private resolveLocale(template: StoredTemplate, locale?: string): string | undefined {
+    const locales = template.locales || {};
+    const candidates = [
+      locale,
+      locale?.split(/[-_]/)[0],
+      template.defaultLocale,
+      this.defaultLocale
+    ];
+
+    return candidates.find((candidate): candidate is string => !!candidate && !!locales[candidate]);
+  }
+
+  private validatePlaceholders(name: string, locale: string, text: string): void {
+    for (const variable of this.placeholders(text)) {
+      if (!VARIABLE_NAME.test(variable)) {
+        throw new ValidationError(`Template "${name}" (${locale}) has an invalid placeholder: {{${variable}}}`);
+      }
+    }
+
+    // Anything left after removing well-formed placeholders is an unbalanced brace pair
+    if (/\{\{|\}\}/.test(text.replace(PLACEHOLDER, ''))) {
+      throw new ValidationError(`Template "${name}" (${locale}) has an unclosed placeholder`);
+    }
+  }
+
+  private placeholders(text: string): string[] {
+    return [...text.matchAll(PLACEHOLDER)].map(match => match[1]);
+  }
+
+  private templatePath(name: string): string {
+    return `${this.rootPath}/${name}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { EventEmitter } from 'events';
+
+/**
+ * EventEmitter with listener signatures checked against an event map
+ */
+export class TypedEventEmitter<
+  Events extends { [E in keyof Events]: (...args: any[]) => void }
+> extends EventEmitter {
+  on<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.on(event, listener);
+  }
+
+  once<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.once(event, listener);
+  }
+
+  off<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.off(event, listener);
+  }
+
+  addListener<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.addListener(event, listener);
+  }
+
+  removeListener<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.removeListener(event, listener);
+  }
+
+  emit<E extends keyof Events & string>(event: E, ...args: Parameters<Events[E]>): boolean {
+    return super.emit(event, ...args);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { normalizePhoneNumber } from './PhoneNumber';
+import { ValidationError, VCardFields, VCardPhone } from './types';
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_TYPES = ['cell', 'work', 'home', 'main'];
+
+/**
+ * Build a vCard 3.0 contact card as WhatsApp expects it. Phone numbers carry a waid
+ * parameter so the card opens a chat with the contact.
+ * @param fields - Contact details; fullName and at least one phone are required
+ * @param defaultCountryCode - Calling code for phone numbers in national format
+ * @returns vCard text
+ */
+export function buildVCard(fields: VCardFields, defaultCountryCode?: string): string {
+  const fullName = fields?.fullName?.trim();
+  if (!fullName) {
+    throw new ValidationError('Contact fullName is required', 'VCARD_NAME_REQUIRED');
+  }
+
+  const phones = (fields.phones || []).map(phone => toPhone(phone, defaultCountryCode));
+  if (phones.length === 0) {
+    throw new ValidationError('Contact needs at least one phone number', 'VCARD_PHONE_REQUIRED');
+  }
+
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0', `FN:${escapeValue(fullName)}`];
+
+  if (fields.firstName || fields.lastName) {
+    lines.push(`N:${escapeValue(fields.lastName || '')};${escapeValue(fields.firstName || '')};;;`);
+  }
+  if (fields.organization) {
+    lines.push(`ORG:${escapeValue(fields.organization)}`);
+  }
+  if (fields.title) {
+    lines.push(`TITLE:${escapeValue(fields.title)}`);
+  }
+
+  for (const phone of phones) {
+    lines.push(`TEL;type=${(phone.type || 'cell').toUpperCase()};waid=${phone.number.slice(1)}:${phone.number}`);
+  }
+
+  for (const email of fields.emails || []) {
+    if (typeof email !== 'string' || !EMAIL.test(email.trim())) {
+      throw new ValidationError(`Invalid contact email: ${email}`, 'VCARD_INVALID_EMAIL');
+    }
+    lines.push(`EMAIL;type=INTERNET:${escapeValue(email.trim())}`);
+  }
+
+  if (fields.url) {
+    if (!/^https?:\/\/\S+$/i.test(fields.url.trim())) {
+      throw new ValidationError(`Contact url must be an http(s) URL: ${fields.url}`, 'VCARD_INVALID_URL');
+    }
+    lines.push(`URL:${escapeValue(fields.url.trim())}`);
+  }
+  if (fields.note) {
+    lines.push(`NOTE:${escapeValue(fields.note)}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.join('\n');
+}
+
+/**
+ * Check a vCard passed as text
+ * @param vcard - vCard text
+ * @returns The card's display name (its FN property)
+ */
+export function parseVCardName(vcard: string): string {
+  const lines = String(vcard ?? '').trim().split(/\r?\n/);
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCARD' || lines[lines.length - 1]?.trim().toUpperCase() !== 'END:VCARD') {
+    throw new ValidationError('vCard must start with BEGIN:VCARD and end with END:VCARD', 'VCARD_INVALID');
+  }
+
+  const fn = lines.find(line => /^FN[;:]/i.test(line));
+  const name = fn ? unescapeValue(fn.slice(fn.indexOf(':') + 1)).trim() : '';
+  if (!name) {
+    throw new ValidationError('vCard needs an FN (full name) property', 'VCARD_NAME_REQUIRED');
+  }
+  return name;
+}
+
+function toPhone(phone: string | VCardPhone, defaultCountryCode?: string): VCardPhone {
+  const entry = typeof phone === 'string' ? { number: phone } : phone;
+  if (entry?.type && !PHONE_TYPES.includes(entry.type)) {
+    throw new ValidationError(`Contact phone type must be one of: ${PHONE_TYPES.join(', ')}`, 'VCARD_INVALID_PHONE');
+  }
+  return { number: normalizePhoneNumber(entry?.number, defaultCountryCode), type: entry.type };
+}
+
+// RFC 6350 3.4: backslash, comma, semicolon and newlines are escaped in values
+function escapeValue(value: string): string {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
\ No newline at end of file
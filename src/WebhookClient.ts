@@ -0,0 +1,97 @@
+import * as https from 'https';
+import * as http from 'http';
+import { createHmac } from 'crypto';
+import { URL } from 'url';
+
+interface WebhookConfig {
+  url: string;
+  secret?: string;
+  timeout?: number;
+  retryAttempts?: number;
+  retryDelay?: number;
+}
+
+/**
+ * Delivers SDK events to an HTTP endpoint as signed JSON POSTs
+ */
+export class WebhookClient {
+  private config: WebhookConfig;
+
+  constructor(config: WebhookConfig) {
+    this.config = config;
+  }
+
+  /**
+   * POST an event with retries and exponential backoff
+   * @param event - Event name sent in the X-Whaple-Event header
+   * @param payload - JSON-serializable body
+   */
+  async send(event: string, payload: any): Promise<void> {
+    const body = JSON.stringify({ event, timestamp: Date.now(), data: payload });
+    const maxAttempts = (this.config.retryAttempts ?? 2) + 1;
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await this.post(event, body);
+        return;
+      } catch (error) {
+        lastError = error as Error;
+        if (attempt < maxAttempts) {
+          const delay = (this.config.retryDelay || 1000) * Math.pow(2, attempt - 1);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw new Error(`Webhook delivery failed after ${maxAttempts} attempts: ${lastError?.message}`);
+  }
+
+  private post(event: string, body: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(this.config.url);
+      const isHttps = url.protocol === 'https:';
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body).toString(),
+        'User-Agent': 'Whaple-SDK/1.0.0',
+        'X-Whaple-Event': event
+      };
+
+      if (this.config.secret) {
+        headers['X-Whaple-Signature'] = createHmac('sha256', this.config.secret).update(body).digest('hex');
+      }
+
+      const request = (isHttps ? https : http).request({
+        hostname: url.hostname,
+        port: parseInt(url.port) || (isHttps ? 443 : 80),
+        path: url.pathname + url.search,
+        method: 'POST',
+        headers,
+        timeout: this.config.timeout || 10000
+      });
+
+      request.on('response', (response) => {
+        // Drain the body so the socket is released
+        response.resume();
+        if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
+          resolve();
+        } else {
+          reject(new Error(`HTTP ${response.statusCode}`));
+        }
+      });
+
+      request.on('timeout', () => {
+        request.destroy();
+        reject(new Error('Request timeout'));
+      });
+
+      request.on('error', (error) => {
+        reject(new Error(`Network error: ${error.message}`));
+      });
+
+      request.write(body);
+      request.end();
+    });
+  }
+}
\ No newline at end of file
@@ -3,6 +3,28 @@ import { HealthChecker } from './HealthChecker';
 import { QueueManager } from './QueueManager';
 import { ApiClient } from './ApiClient';
 import { WhatsAppConnection } from './WhatsAppConnection';
+import { QueueWorker } from './QueueWorker';
+import { FirebaseQueueStore } from './FirebaseQueueStore';
+import { MemoryQueueStore } from './MemoryQueueStore';
+import { FileQueueStore } from './FileQueueStore';
+import { LocalMediaStore } from './LocalMediaStore';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { WebhookClient } from './WebhookClient';
+import { MessageHistory } from './MessageHistory';
+import { DEFAULT_PRIORITY_AGING_INTERVAL } from './QueuePriority';
+import { RateLimiter } from './RateLimiter';
+import { CircuitBreaker } from './CircuitBreaker';
+import { classifyFailure } from './FailureClassifier';
+import { TemplateRegistry } from './TemplateRegistry';
+import { normalizeGroupJid, normalizePhoneNumber, parseCountryCode } from './PhoneNumber';
+import { RegistrationCache } from './RegistrationCache';
+import {
+  contactMessage,
+  describeMessageContent,
+  isMessageContent,
+  locationMessage,
+  validateMessageContent
+} from './MessageContent';
 import {
   WhapleConfig,
   SendMessageOptions,
@@ -12,22 +34,62 @@ import {
   MessageStatus,
   ConfigurationError,
   ValidationError,
+  NotOnWhatsAppError,
+  WhatsAppRegistration,
+  GroupInfo,
+  GroupParticipantResult,
+  MessageContent,
   FirebaseServiceAccount,
   WhatsAppConnectionConfig,
-  WhatsAppConnectionStatus
+  WhatsAppConnectionStatus,
+  QueueWorkerStats,
+  QueueStore,
+  QueueStoreType,
+  MessageHistoryQuery,
+  ScheduleMessageOptions,
+  ScheduledMessage,
+  QueuedMessagePatch,
+  FailedMessageFilter,
+  RetryFailedResult,
+  DeadLetterMessage,
+  MediaMessage,
+  MediaStore,
+  BulkMessage,
+  BulkSendOptions,
+  BulkSendResult,
+  MessageTemplate,
+  StoredTemplate,
+  TemplateVariables,
+  SendTemplateOptions,
+  QueuedMedia,
+  IncomingMessage,
+  VCardFields,
+  WhapleEvents
 } from './types';
 
-export class Whaple {
+const SESSION_ID = /^[A-Za-z0-9_-]+$/;
+
+export class Whaple extends TypedEventEmitter<WhapleEvents> {
   private config: Required<WhapleConfig> & { [key: string]: any };
-  private firebaseApp!: admin.app.App;
-  private database!: admin.database.Database;
+  private firebaseApp?: admin.app.App;
+  private database?: admin.database.Database;
+  private queueStore!: QueueStore;
+  private mediaStore!: MediaStore;
+  private webhookClient?: WebhookClient;
   private healthChecker!: HealthChecker;
   private queueManager!: QueueManager;
   private apiClient!: ApiClient;
   private whatsappConnection?: WhatsAppConnection;
+  private queueWorker?: QueueWorker;
+  private rateLimiter?: RateLimiter;
+  private circuitBreaker!: CircuitBreaker;
+  private templates!: TemplateRegistry;
+  private registrationCache!: RegistrationCache;
   private useDirectWhatsApp: boolean;
+  private warnedNoScheduler = false;
 
   constructor(config: WhapleConfig & { useDirectWhatsApp?: boolean } = {}) {
+    super();
     this.useDirectWhatsApp = config.useDirectWhatsApp || false;
     this.config = {
       whatsappServerUrl: config.whatsappServerUrl || process.env.WHATSAPP_SERVER_URL || '',
@@ -36,10 +98,15 @@ export class Whaple {
       debug: config.debug || false,
       healthCheckTimeout: config.healthCheckTimeout || 3000,
       queueTimeout: config.queueTimeout || 30000,
-      queueThreshold: (config as any).queueThreshold || 0,
-      enableSmartRouting: (config as any).enableSmartRouting !== false,
-      retryAttempts: (config as any).retryAttempts || 2,
-      retryDelay: (config as any).retryDelay || 1000,
+      enableSmartRouting: config.enableSmartRouting !== false,
+      retryAttempts: config.retryAttempts || 2,
+      retryDelay: config.retryDelay || 1000,
+      priorityAgingInterval: config.priorityAgingInterval ?? DEFAULT_PRIORITY_AGING_INTERVAL,
+      idempotencyWindow: config.idempotencyWindow || 24 * 60 * 60 * 1000,
+      registrationCacheTTL: config.registrationCacheTTL ?? 60 * 60 * 1000,
+      enableQueueWorker: config.enableQueueWorker ?? this.useDirectWhatsApp,
+      queueWorker: config.queueWorker || {},
+      queueStore: config.queueStore || 'firebase',
       ...config
     } as Required<WhapleConfig> & { [key: string]: any };
 
@@ -54,8 +121,21 @@ export class Whaple {
     if (!this.useDirectWhatsApp && !this.config.apiKey) {
       throw new ConfigurationError('API key is required when not using direct WhatsApp connection');
     }
-    if (!this.config.firebaseConfig) {
-      throw new ConfigurationError('Firebase configuration is required');
+    if (this.config.queueStore === 'firebase' && !this.config.firebaseConfig) {
+      throw new ConfigurationError('Firebase configuration is required when using the Firebase queue store');
+    }
+    if (this.config.sessionId !== undefined && !SESSION_ID.test(this.config.sessionId)) {
+      throw new ConfigurationError('sessionId may only contain letters, digits, - and _');
+    }
+    if (this.config.defaultCountryCode !== undefined && !parseCountryCode(this.config.defaultCountryCode)) {
+      throw new ConfigurationError(`Invalid defaultCountryCode: ${this.config.defaultCountryCode}`);
+    }
+    const rateLimit = this.config.rateLimit;
+    if (rateLimit && (
+      (rateLimit.messagesPerMinute !== undefined && !(rateLimit.messagesPerMinute > 0)) ||
+      (rateLimit.burst !== undefined && !(rateLimit.burst >= 1))
+    )) {
+      throw new ConfigurationError('rateLimit.messagesPerMinute must be positive and rateLimit.burst at least 1');
     }
   }
 
@@ -71,16 +151,104 @@ export class Whaple {
     }
   }
 
-  private initializeServices(): void {
-    // Initialize Firebase (reuse existing app if available)
+  /**
+   * @param previous - Config before configure(); services whose settings did not change are kept
+   */
+  private initializeServices(previous?: Whaple['config']): void {
+    const changed = (key: string) => !previous || previous[key] !== this.config[key];
+
+    if (this.config.firebaseConfig) {
+      this.initializeFirebase();
+    }
+
+    // The store holds pending, scheduled and dead-letter messages, so only a new backend replaces it
+    if (changed('queueStore') || changed('queueStorePath') ||
+        (this.config.queueStore === 'firebase' && changed('firebaseConfig'))) {
+      this.queueStore = this.createQueueStore(
+        this.config.queueStore,
+        this.sessionScoped(this.config.queueStorePath || 'whaple-queue.json'),
+        this.sessionScoped(this.config.queueStorePath || 'message_queue')
+      );
+    }
+    this.mediaStore = this.config.mediaStore ||
+      new LocalMediaStore(this.sessionScoped(this.config.mediaStoragePath || 'whaple-media'));
+    this.webhookClient = this.config.incomingMessages?.webhookUrl
+      ? new WebhookClient({
+          url: this.config.incomingMessages.webhookUrl,
+          secret: this.config.incomingMessages.webhookSecret,
+          timeout: this.config.incomingMessages.webhookTimeout,
+          retryAttempts: this.config.retryAttempts,
+          retryDelay: this.config.retryDelay
+        })
+      : undefined;
+    // The breaker, limiter and connection carry live state, so reconfiguring updates them in place
+    if (!this.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker);
+      this.circuitBreaker.on('circuit:changed', (event) => this.emit('circuit:changed', event));
+    } else if (changed('circuitBreaker')) {
+      this.circuitBreaker.configure(this.config.circuitBreaker);
+    }
+    this.healthChecker = new HealthChecker(this.config);
+    this.healthChecker.on('health:changed', (event) => {
+      this.circuitBreaker.recordHealth(event.isHealthy);
+      this.emit('health:changed', event);
+    });
+    this.queueManager = new QueueManager(this.queueStore, this.config);
+    if (!this.config.rateLimit) {
+      this.rateLimiter = undefined;
+    } else if (!this.rateLimiter) {
+      this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    } else if (changed('rateLimit')) {
+      this.rateLimiter.configure(this.config.rateLimit);
+    }
+    this.registrationCache = new RegistrationCache(this.config.registrationCacheTTL);
+
+    // The default memory store holds every registered template, so keep it unless its settings change
+    const templateConfig = this.config.templates || {};
+    if (changed('templates') || (templateConfig.store === 'firebase' && changed('firebaseConfig'))) {
+      this.templates = new TemplateRegistry(
+        this.createQueueStore(
+          templateConfig.store || 'memory',
+          templateConfig.storePath || 'whaple-templates.json',
+          templateConfig.storePath || 'message_templates'
+        ),
+        'templates',
+        templateConfig.defaultLocale
+      );
+    }
+    
+    if (!this.useDirectWhatsApp) {
+      this.apiClient = new ApiClient(this.config);
+      if (this.rateLimiter) {
+        this.apiClient.setRateLimiter(this.rateLimiter);
+      }
+    }
+    
+    // Initialize WhatsApp connection if using direct mode
+    if (this.useDirectWhatsApp && !this.whatsappConnection) {
+      this.initializeWhatsAppConnection();
+    } else if (this.whatsappConnection && this.firebaseApp && changed('firebaseConfig')) {
+      this.whatsappConnection.setFirebaseApp(this.firebaseApp);
+    }
+    if (this.whatsappConnection && changed('messageHistory')) {
+      this.initializeMessageHistory();
+    }
+
+    this.initializeQueueWorker();
+  }
+
+  private initializeFirebase(): void {
+    // Reuse existing app if available
     try {
-      const existingApp = admin.apps.find(app => app?.name === 'whatsapp-sdk');
+      // One app per session, so cleaning up a session does not delete another session's app
+      const appName = this.config.sessionId ? `whatsapp-sdk:${this.config.sessionId}` : 'whatsapp-sdk';
+      const existingApp = admin.apps.find(app => app?.name === appName);
       
       if (!existingApp) {
         this.firebaseApp = admin.initializeApp({
           credential: admin.credential.cert(this.config.firebaseConfig as admin.ServiceAccount),
           databaseURL: `https://${this.config.firebaseConfig!.project_id}-default-rtdb.firebaseio.com/`
-        }, 'whatsapp-sdk');
+        }, appName);
       } else {
         this.firebaseApp = existingApp;
       }
@@ -89,30 +257,125 @@ export class Whaple {
     } catch (error) {
       throw new ConfigurationError(`Firebase initialization failed: ${(error as Error).message}`);
     }
+  }
 
-    // Initialize service modules
-    this.healthChecker = new HealthChecker(this.config);
-    this.queueManager = new QueueManager(this.database, this.config);
-    
-    if (!this.useDirectWhatsApp) {
-      this.apiClient = new ApiClient(this.config);
+  /**
+   * Build a store from a store type or return a custom store as-is
+   * @param queueStore - Store type or custom implementation
+   * @param filePath - JSON file used by the 'file' store
+   * @param firebasePath - RTDB root used by the 'firebase' store
+   */
+  private createQueueStore(queueStore: QueueStoreType | QueueStore, filePath: string, firebasePath: string): QueueStore {
+    if (typeof queueStore === 'object') {
+      return queueStore;
     }
-    
-    // Initialize WhatsApp connection if using direct mode
-    if (this.useDirectWhatsApp) {
-      this.initializeWhatsAppConnection();
+
+    switch (queueStore) {
+      case 'memory':
+        return new MemoryQueueStore();
+      case 'file':
+        return new FileQueueStore(filePath);
+      case 'firebase':
+        if (!this.database) {
+          throw new ConfigurationError('Firebase configuration is required when using the Firebase queue store');
+        }
+        return new FirebaseQueueStore(this.database, firebasePath);
+      default:
+        throw new ConfigurationError(`Unknown queue store: ${queueStore}`);
+    }
+  }
+
+  /**
+   * Scope a store path to this instance's session: 'message_queue' becomes 'message_queue/sessions/{sessionId}'
+   * and 'whaple-queue.json' becomes 'whaple-queue.{sessionId}.json'. The separate 'sessions' level keeps
+   * a session named like the default instance's data (pending, creds, ...) from sharing it.
+   */
+  private sessionScoped(path: string): string {
+    const sessionId = this.config.sessionId;
+    if (!sessionId) {
+      return path;
     }
+    return path.endsWith('.json') ? `${path.slice(0, -5)}.${sessionId}.json` : `${path}/sessions/${sessionId}`;
   }
 
   private initializeWhatsAppConnection(): void {
     const whatsappConfig: WhatsAppConnectionConfig = {
       printQRInTerminal: this.config.debug || false,
       useFirebaseAuth: true,
-      authPath: 'auth_info_baileys'
+      authPath: this.sessionScoped('auth_info_baileys'),
+      firebaseAuthPath: this.sessionScoped(this.config.whatsappAuthPath || 'whatsapp_auth'),
+      authStore: this.config.authStore
     };
     
     this.whatsappConnection = new WhatsAppConnection(whatsappConfig);
-    this.whatsappConnection.setFirebaseApp(this.firebaseApp);
+    this.whatsappConnection.on('qr', (qr) => this.emit('qr', qr));
+    this.whatsappConnection.on('connected', (userInfo) => this.emit('connected', userInfo));
+    this.whatsappConnection.on('disconnected', (info) => this.emit('disconnected', info));
+    this.whatsappConnection.on('loggedOut', () => this.emit('loggedOut'));
+    this.whatsappConnection.on('message', (message) => this.handleIncomingMessage(message));
+    this.whatsappConnection.on('receipt', (receipt) => {
+      this.emit('message:receipt', receipt);
+      this.queueManager.recordReceipt(receipt);
+    });
+    if (this.firebaseApp) {
+      this.whatsappConnection.setFirebaseApp(this.firebaseApp);
+    }
+  }
+
+  private initializeMessageHistory(): void {
+    const historyConfig = this.config.messageHistory || {};
+    if (historyConfig.enabled === false) {
+      this.whatsappConnection!.setMessageHistory(undefined);
+      return;
+    }
+
+    const historyStore = this.createQueueStore(
+      historyConfig.store || 'memory',
+      this.sessionScoped(historyConfig.storePath || 'whaple-history.json'),
+      this.sessionScoped(historyConfig.storePath || 'message_history')
+    );
+    this.whatsappConnection!.setMessageHistory(new MessageHistory(historyStore));
+  }
+
+  private initializeQueueWorker(): void {
+    // The new worker gets the current store and limiter, and takes over if the old one was running
+    const wasRunning = !!this.queueWorker?.getStats().isRunning;
+    if (this.queueWorker) {
+      this.queueWorker.stop().catch(() => undefined);
+      this.queueWorker = undefined;
+    }
+
+    if (!this.config.enableQueueWorker) {
+      return;
+    }
+
+    this.queueWorker = new QueueWorker(
+      this.queueStore,
+      {
+        whatsappConnection: this.whatsappConnection,
+        apiClient: this.useDirectWhatsApp ? undefined : this.apiClient,
+        mediaStore: this.mediaStore,
+        rateLimiter: this.rateLimiter
+      },
+      {
+        debug: this.config.debug,
+        maxAttempts: this.config.retryAttempts + 1,
+        priorityAgingInterval: this.config.priorityAgingInterval,
+        defaultCountryCode: this.config.defaultCountryCode,
+        retryPolicy: this.config.retryPolicy,
+        ...this.config.queueWorker
+      }
+    );
+    this.queueWorker.on('message:sent', (result) => this.emit('message:sent', result));
+    this.queueWorker.on('message:failed', (event) => this.emit('message:failed', event));
+
+    if (wasRunning) {
+      this.queueWorker.start().catch((error) => {
+        if (this.config.debug) {
+          console.error('Failed to restart queue worker:', (error as Error).message);
+        }
+      });
+    }
   }
 
   /**
@@ -123,17 +386,79 @@ export class Whaple {
       throw new Error('Direct WhatsApp connection is not enabled');
     }
     await this.whatsappConnection.connect();
+
+    if (this.queueWorker) {
+      await this.queueWorker.start();
+    }
   }
 
   /**
    * Disconnect from WhatsApp (only available in direct mode)
    */
   async disconnectFromWhatsApp(): Promise<void> {
+    if (this.queueWorker) {
+      await this.queueWorker.stop();
+    }
     if (this.whatsappConnection) {
       await this.whatsappConnection.disconnect();
     }
   }
 
+  /**
+   * Register a handler for inbound WhatsApp messages (direct mode only)
+   * @param handler - Called with each normalized inbound message; may be async
+   * @returns Function that removes the handler
+   */
+  onMessage(handler: (message: IncomingMessage) => void | Promise<void>): () => void {
+    const listener = (message: IncomingMessage) => {
+      Promise.resolve()
+        .then(() => handler(message))
+        .catch((error) => {
+          if (this.config.debug) {
+            console.error('Incoming message handler failed:', (error as Error).message);
+          }
+        });
+    };
+
+    this.on('message', listener);
+    return () => {
+      this.off('message', listener);
+    };
+  }
+
+  /**
+   * Dispatch an inbound message to listeners, the queue store and the webhook
+   */
+  private handleIncomingMessage(message: IncomingMessage): void {
+    const incomingConfig = this.config.incomingMessages || {};
+    if (message.fromMe && incomingConfig.ignoreFromMe !== false) {
+      return;
+    }
+
+    this.emit('message', message);
+
+    // Drop the raw Baileys payload and undefined fields before serializing
+    const { raw, ...serializable } = message;
+    const record = JSON.parse(JSON.stringify(serializable));
+
+    if (incomingConfig.persist) {
+      this.queueStore.write(`incoming/${message.id}`, { ...record, receivedAt: Date.now() })
+        .catch((error) => {
+          if (this.config.debug) {
+            console.error('Failed to persist incoming message:', (error as Error).message);
+          }
+        });
+    }
+
+    if (this.webhookClient) {
+      this.webhookClient.send('message.received', record).catch((error) => {
+        if (this.config.debug) {
+          console.error('Incoming message webhook failed:', (error as Error).message);
+        }
+      });
+    }
+  }
+
   /**
    * Get WhatsApp connection status (only available in direct mode)
    */
@@ -144,6 +469,13 @@ export class Whaple {
     return this.whatsappConnection.getConnectionStatus();
   }
 
+  /**
+   * @returns The session ID this instance was created with, if any
+   */
+  getSessionId(): string | undefined {
+    return this.config.sessionId;
+  }
+
   /**
    * Get current QR code for WhatsApp authentication
    */
@@ -154,21 +486,49 @@ export class Whaple {
     return this.whatsappConnection.getCurrentQR() || null;
   }
 
+  /**
+   * Start draining the message queue in-process
+   * (started automatically by connectToWhatsApp in direct mode)
+   */
+  async startQueueWorker(): Promise<void> {
+    if (!this.queueWorker) {
+      throw new ConfigurationError('Queue worker is not enabled');
+    }
+    await this.queueWorker.start();
+  }
+
+  /**
+   * Stop the in-process queue worker
+   */
+  async stopQueueWorker(): Promise<void> {
+    if (this.queueWorker) {
+      await this.queueWorker.stop();
+    }
+  }
+
+  /**
+   * Get in-process queue worker statistics
+   * @returns Worker stats or null if the worker is disabled
+   */
+  getQueueWorkerStats(): QueueWorkerStats | null {
+    return this.queueWorker ? this.queueWorker.getStats() : null;
+  }
+
   /**
    * Send a WhatsApp message with smart routing or direct connection
    * @param number - Phone number (with or without + prefix)
-   * @param message - Message content
+   * @param message - Text, or content such as a reply, reaction or poll
    * @param options - Additional options
    * @returns Result object with success status and details
    */
   async sendMessage(
     number: string, 
-    message: string, 
+    message: string | MessageContent, 
     options: SendMessageOptions = {}
   ): Promise<SendMessageResult> {
     const messageData = {
       number: this.normalizePhoneNumber(number),
-      message,
+      ...this.toMessageFields(message, options.linkPreview),
       options,
       source: 'sdk',
       version: '1.0.0',
@@ -176,33 +536,458 @@ export class Whaple {
       priority: options.priority || 'medium'
     };
 
+    await this.ensureRecipient(messageData.number, options);
+
+    return await this.withIdempotency(options, async () => {
+      try {
+        return await this.routeMessage(messageData);
+      } catch (error) {
+        this.emit('message:failed', { number: messageData.number, error: (error as Error).message });
+        throw new Error(`Failed to send message: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  /**
+   * Send an image, document, audio, video or sticker with the same routing as sendMessage.
+   * Queued media is stored by reference: URLs and file paths as-is, Buffers via the media store.
+   * @param number - Phone number (with or without + prefix)
+   * @param media - Media source (Buffer, file path or URL) and metadata
+   * @param options - Additional options
+   * @returns Result object with success status and details
+   */
+  async sendMedia(
+    number: string,
+    media: MediaMessage,
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    this.validateMedia(media);
+
+    const messageData = {
+      number: this.normalizePhoneNumber(number),
+      message: media.caption || '',
+      media,
+      options,
+      source: 'sdk',
+      version: '1.0.0',
+      timestamp: Date.now(),
+      priority: options.priority || 'medium'
+    };
+
+    await this.ensureRecipient(messageData.number, options);
+
+    return await this.withIdempotency(options, async () => {
+      try {
+        return await this.routeMessage(messageData);
+      } catch (error) {
+        this.emit('message:failed', { number: messageData.number, error: (error as Error).message });
+        throw new Error(`Failed to send media: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  /**
+   * Send many messages through the same routing and rate limits as sendMessage.
+   * A failed message does not reject the call; it is reported in the result.
+   * @param messages - Messages to send, text and/or media
+   * @param options - Concurrency, error handling, routing and progress callback
+   * @returns Per-message results with direct/queued/failed counts
+   */
+  async sendBulk(messages: BulkMessage[], options: BulkSendOptions = {}): Promise<BulkSendResult> {
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new ValidationError('Messages must be a non-empty array');
+    }
+    const concurrency = options.concurrency ?? 1;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError('Concurrency must be a positive integer');
+    }
+
+    const results: Array<SendMessageResult | undefined> = new Array(messages.length);
+    let next = 0;
+    let completed = 0;
+    let stopped = false;
+
+    const runNext = async (): Promise<void> => {
+      while (!stopped && next < messages.length) {
+        const index = next++;
+        const item = messages[index];
+        let result: SendMessageResult;
+
+        try {
+          result = await this.sendBulkItem(item, options.routing || 'smart');
+        } catch (error) {
+          // Nothing was sent or queued for this message
+          result = {
+            success: false,
+            messageId: '',
+            method: 'failed',
+            timestamp: Date.now(),
+            error: (error as Error).message
+          };
+          if (options.stopOnError) {
+            stopped = true;
+          }
+        }
+
+        results[index] = result;
+        completed++;
+        try {
+          options.onProgress?.({ index, number: item?.number, result, completed, total: messages.length });
+        } catch (error) {
+          if (this.config.debug) {
+            console.error('Bulk send progress callback failed:', (error as Error).message);
+          }
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, messages.length) }, () => runNext())
+    );
+
+    const attempted = results.filter((result): result is SendMessageResult => result !== undefined);
+    const successful = attempted.filter(result => result.success);
+
+    return {
+      results: attempted,
+      totalSent: successful.length,
+      totalFailed: attempted.length - successful.length,
+      summary: {
+        successful: successful.length,
+        failed: attempted.length - successful.length,
+        direct: successful.filter(result => result.method === 'direct').length,
+        queued: successful.filter(result => result.method === 'queued').length,
+        skipped: messages.length - attempted.length
+      }
+    };
+  }
+
+  private async sendBulkItem(item: BulkMessage, routing: 'smart' | 'queue'): Promise<SendMessageResult> {
+    if (!item || (!item.message && !item.media)) {
+      throw new ValidationError('Each message needs a message or media');
+    }
+    const options = item.options || {};
+
+    if (routing === 'smart') {
+      return item.media
+        ? await this.sendMedia(item.number, item.media, options)
+        : await this.sendMessage(item.number, item.message!, options);
+    }
+
+    if (!item.media) {
+      return await this.queueMessage(item.number, item.message!, options);
+    }
+
+    this.validateMedia(item.media);
+    const messageData = {
+      number: this.normalizePhoneNumber(item.number),
+      message: typeof item.message === 'string' && item.message ? item.message : item.media.caption || '',
+      media: item.media,
+      options,
+      source: 'sdk',
+      version: '1.0.0',
+      timestamp: Date.now(),
+      priority: options.priority || 'medium'
+    };
+    await this.ensureRecipient(messageData.number, options);
+    return await this.withIdempotency(options, () => this.enqueue(messageData));
+  }
+
+  /**
+   * Add or replace a message template
+   * @param name - Template name (letters, digits, - and _)
+   * @param template - Text per locale with {{variable}} placeholders
+   * @returns The stored template
+   */
+  async registerTemplate(name: string, template: MessageTemplate): Promise<StoredTemplate> {
+    return await this.templates.register(name, template);
+  }
+
+  /**
+   * @param name - Template name
+   * @returns The template, or null if it does not exist
+   */
+  async getTemplate(name: string): Promise<StoredTemplate | null> {
+    return await this.templates.get(name);
+  }
+
+  /**
+   * @returns All registered templates, ordered by name
+   */
+  async listTemplates(): Promise<StoredTemplate[]> {
+    return await this.templates.list();
+  }
+
+  /**
+   * @param name - Template name
+   * @returns True if a template was removed
+   */
+  async removeTemplate(name: string): Promise<boolean> {
+    return await this.templates.remove(name);
+  }
+
+  /**
+   * Render a template and send it with the same routing as sendMessage
+   * @param number - Phone number (with or without + prefix)
+   * @param name - Template name
+   * @param variables - Placeholder values; a missing one throws a ValidationError
+   * @param options - Preferred locale plus the usual send options
+   * @returns Result object with success status and details
+   */
+  async sendTemplate(
+    number: string,
+    name: string,
+    variables: TemplateVariables = {},
+    options: SendTemplateOptions = {}
+  ): Promise<SendMessageResult> {
+    const { locale, ...sendOptions } = options;
+    const { text } = await this.templates.render(name, variables, locale);
+    return await this.sendMessage(number, text, sendOptions);
+  }
+
+  /**
+   * Send a location pin with the same routing as sendMessage
+   * @param number - Phone number (with or without + prefix)
+   * @param location - Latitude and longitude in degrees, with an optional place name and address
+   * @param options - Additional options
+   * @returns Result object with success status and details
+   */
+  async sendLocation(
+    number: string,
+    location: { lat: number; lng: number; name?: string; address?: string },
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    return await this.sendMessage(number, locationMessage(location), options);
+  }
+
+  /**
+   * Send a contact card with the same routing as sendMessage
+   * @param number - Phone number (with or without + prefix)
+   * @param contact - vCard text, or fields to build one from (see buildVCard)
+   * @param options - Additional options
+   * @returns Result object with success status and details
+   */
+  async sendContact(
+    number: string,
+    contact: string | VCardFields,
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    return await this.sendMessage(number, contactMessage(contact, this.config.defaultCountryCode), options);
+  }
+
+  /**
+   * Check which numbers have a WhatsApp account.
+   * Uses the direct connection in direct mode and the server's /api/check-numbers otherwise;
+   * results are cached for registrationCacheTTL.
+   * @param numbers - Phone numbers (with or without + prefix)
+   * @returns One entry per number, in the same order
+   */
+  async isOnWhatsApp(numbers: string[]): Promise<WhatsAppRegistration[]> {
+    if (!Array.isArray(numbers) || numbers.length === 0) {
+      throw new ValidationError('Numbers must be a non-empty array');
+    }
+
+    const normalized = numbers.map(number => this.normalizePhoneNumber(number));
+    const fresh = new Map<string, WhatsAppRegistration>();
+    const missing = [...new Set(normalized.filter(number => !this.registrationCache.get(number)))];
+
+    if (missing.length > 0) {
+      const registrations = this.useDirectWhatsApp
+        ? await this.whatsappConnection!.onWhatsApp(missing)
+        : await this.apiClient.checkNumbers(missing);
+      this.registrationCache.set(registrations);
+      registrations.forEach(registration => fresh.set(registration.number, registration));
+    }
+
+    return normalized.map(number => fresh.get(number) || this.registrationCache.get(number)!);
+  }
+
+  /**
+   * Reject with NotOnWhatsAppError when verifyRecipient is set and the number has no account.
+   * If the check itself fails the message is sent as usual.
+   */
+  private async ensureRecipient(number: string, options: SendMessageOptions): Promise<void> {
+    if (!options.verifyRecipient) {
+      return;
+    }
+
+    let registration: WhatsAppRegistration;
+    try {
+      [registration] = await this.isOnWhatsApp([number]);
+    } catch (error) {
+      if (this.config.debug) {
+        console.warn(`Could not verify ${number}, sending anyway:`, (error as Error).message);
+      }
+      return;
+    }
+
+    if (!registration.exists) {
+      this.emit('message:failed', { number, error: `Number ${number} is not on WhatsApp`, errorType: 'not_on_whatsapp' });
+      throw new NotOnWhatsAppError(number);
+    }
+  }
+
+  /**
+   * Run a send at most once per idempotency key within the idempotency window.
+   * Replays get the original result with `replayed: true`.
+   */
+  private async withIdempotency(
+    options: SendMessageOptions,
+    send: () => Promise<SendMessageResult>
+  ): Promise<SendMessageResult> {
+    const key = options.idempotencyKey;
+    if (!key) {
+      return await send();
+    }
+
+    const previous = await this.queueManager.reserveIdempotencyKey(key);
+    if (previous) {
+      if (this.config.debug) {
+        console.warn(`Idempotency key ${key} already used, returning original result`);
+      }
+      return previous;
+    }
+
+    let result: SendMessageResult;
     try {
-      if (this.useDirectWhatsApp && this.whatsappConnection) {
-        // Use direct WhatsApp connection
-        const connectionStatus = this.whatsappConnection.getConnectionStatus();
-        if (connectionStatus.isConnected && connectionStatus.isAuthenticated) {
-          try {
-            return await this.whatsappConnection.sendMessage(messageData.number, messageData.message);
-          } catch (error) {
-            // Fallback to queue if direct send fails
-            if (this.config.debug) {
-              console.warn('Direct WhatsApp send failed, falling back to queue:', (error as Error).message);
-            }
-            return await this.queueManager.addMessage(messageData);
+      result = await send();
+    } catch (error) {
+      await this.queueManager.releaseIdempotencyKey(key).catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      await this.queueManager.recordIdempotentResult(key, result, this.config.idempotencyWindow);
+    } catch (error) {
+      // The message went out; failing here would invite the caller to send it again
+      if (this.config.debug) {
+        console.error(`Failed to record idempotency key ${key}:`, (error as Error).message);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Route a message through the direct connection, smart routing or the queue
+   */
+  private async routeMessage(messageData: any): Promise<SendMessageResult> {
+    if (this.useDirectWhatsApp && this.whatsappConnection) {
+      // Use direct WhatsApp connection
+      const connectionStatus = this.whatsappConnection.getConnectionStatus();
+      if (connectionStatus.isConnected && connectionStatus.isAuthenticated) {
+        if (!this.acquireSendSlot(messageData.number)) {
+          this.emitRoutingDecision(messageData.number, 'queue', 'rate_limited');
+          return await this.enqueue(messageData);
+        }
+        this.emitRoutingDecision(messageData.number, 'direct', 'whatsapp_connected');
+        try {
+          const result = messageData.media
+            ? await this.whatsappConnection.sendMedia(messageData.number, messageData.media)
+            : await this.whatsappConnection.sendMessage(messageData.number, messageData.content || messageData.message);
+          this.emit('message:sent', result);
+          return result;
+        } catch (error) {
+          // Fallback to queue if direct send fails
+          if (this.config.debug) {
+            console.warn('Direct WhatsApp send failed, falling back to queue:', (error as Error).message);
           }
-        } else {
-          // WhatsApp not connected, use queue
-          return await this.queueManager.addMessage(messageData);
+          this.emitRoutingDecision(messageData.number, 'queue', 'direct_send_failed');
+          return await this.enqueue(messageData);
         }
-      } else if (this.config.enableSmartRouting) {
-        // Use API-based smart routing
-        return await this.smartRoutingDecision(messageData);
       } else {
-        // Force queue mode
-        return await this.queueMessage(messageData.number, messageData.message, options);
+        // WhatsApp not connected, use queue
+        this.emitRoutingDecision(messageData.number, 'queue', 'whatsapp_not_connected');
+        return await this.enqueue(messageData);
       }
-    } catch (error) {
-      throw new Error(`Failed to send message: ${(error as Error).message}`);
+    } else if (this.config.enableSmartRouting) {
+      // Use API-based smart routing
+      return await this.smartRoutingDecision(messageData);
+    } else {
+      // Force queue mode
+      this.emitRoutingDecision(messageData.number, 'queue', 'smart_routing_disabled');
+      return await this.enqueue(messageData);
+    }
+  }
+
+  /**
+   * Split a message into the summary text kept in `message` and validated, JSON-safe content.
+   * The linkPreview option turns plain text into text content so the setting is queued with it.
+   */
+  private toMessageFields(
+    message: string | MessageContent,
+    linkPreview?: boolean
+  ): { message: string; content?: MessageContent } {
+    if (linkPreview !== undefined) {
+      if (typeof message === 'string') {
+        message = { type: 'text', text: message, linkPreview };
+      } else if (message?.type === 'text' && message.linkPreview === undefined) {
+        message = { ...message, linkPreview };
+      }
+    }
+    if (typeof message === 'string') {
+      return { message };
+    }
+
+    validateMessageContent(message);
+    // Firebase rejects undefined values anywhere in the record
+    return { message: describeMessageContent(message), content: JSON.parse(JSON.stringify(message)) };
+  }
+
+  /**
+   * Take a rate limiter token for a direct send
+   * @returns False if the message should be queued instead
+   */
+  private acquireSendSlot(number: string): boolean {
+    return this.rateLimiter ? this.rateLimiter.tryAcquire(number) : true;
+  }
+
+  private emitRoutingDecision(number: string, route: 'direct' | 'queue', reason: string): void {
+    this.emit('routing:decision', { number, route, reason, timestamp: Date.now() });
+  }
+
+  /**
+   * Add a message to the queue, replacing inline media with a reference
+   */
+  private async enqueue(messageData: any): Promise<SendMessageResult> {
+    const result = messageData.media
+      ? await this.queueManager.addMessage({
+          ...messageData,
+          media: await this.toQueuedMedia(messageData.media)
+        })
+      : await this.queueManager.addMessage(messageData);
+
+    this.emit('message:queued', result);
+    return result;
+  }
+
+  private async toQueuedMedia(media: MediaMessage): Promise<QueuedMedia> {
+    const queued: QueuedMedia = { type: media.type };
+
+    if (Buffer.isBuffer(media.source)) {
+      queued.ref = await this.mediaStore.save(media.source, media.filename);
+    } else if (/^https?:\/\//i.test(media.source)) {
+      queued.url = media.source;
+    } else {
+      queued.path = media.source;
+    }
+
+    // Firebase rejects undefined values, so only copy the fields that are set
+    if (media.mimetype) queued.mimetype = media.mimetype;
+    if (media.caption) queued.caption = media.caption;
+    if (media.filename) queued.filename = media.filename;
+    if (media.ptt) queued.ptt = media.ptt;
+
+    return queued;
+  }
+
+  private validateMedia(media: MediaMessage): void {
+    const mediaTypes = ['image', 'document', 'audio', 'video', 'sticker'];
+
+    if (!media || !mediaTypes.includes(media.type)) {
+      throw new ValidationError(`Media type must be one of: ${mediaTypes.join(', ')}`);
+    }
+    if (!media.source || (typeof media.source !== 'string' && !Buffer.isBuffer(media.source))) {
+      throw new ValidationError('Media source must be a Buffer, file path or URL');
     }
   }
 
@@ -210,29 +995,39 @@ export class Whaple {
    * Smart routing logic: direct API or queue based on server status
    */
   private async smartRoutingDecision(messageData: any): Promise<SendMessageResult> {
+    // A closed circuit sends straight to the API; outcomes of those calls keep it honest
+    if (!this.circuitBreaker.tryAcquire()) {
+      const state = this.circuitBreaker.getState();
+      this.emitRoutingDecision(messageData.number, 'queue', state === 'open' ? 'circuit_open' : 'circuit_half_open');
+      return await this.enqueue(messageData);
+    }
+
+    const isTrial = this.circuitBreaker.getState() === 'half-open';
     try {
-      // Step 1: Check server health
-      const isServerHealthy = await this.healthChecker.isServerHealthy();
-      
-      // Step 2: Check queue status
-      const queueStatus = await this.queueManager.getQueueStatus();
-      const shouldUseQueue = !isServerHealthy || 
-                           queueStatus.pendingMessages > this.config.queueThreshold ||
-                           queueStatus.processingMessages > 0;
-
-      if (shouldUseQueue) {
-        // Route to queue
-        return await this.queueManager.addMessage(messageData);
-      } else {
-        // Route to direct API with fallback
-        return await this.sendDirectWithFallback(messageData);
+      // The trial call after an outage checks health first rather than sending into a dead server
+      if (isTrial && !(await this.healthChecker.isServerHealthy())) {
+        this.circuitBreaker.recordFailure('Health check failed');
+        this.emitRoutingDecision(messageData.number, 'queue', 'server_unhealthy');
+        return await this.enqueue(messageData);
       }
+
+      if (!this.acquireSendSlot(messageData.number)) {
+        // Over the send rate; the queue worker sends it once a slot frees up
+        this.circuitBreaker.release();
+        this.emitRoutingDecision(messageData.number, 'queue', 'rate_limited');
+        return await this.enqueue(messageData);
+      }
+
+      this.emitRoutingDecision(messageData.number, 'direct', isTrial ? 'circuit_trial' : 'circuit_closed');
+      return await this.sendDirectWithFallback(messageData);
     } catch (error) {
       // Fallback to queue on any routing decision error
+      this.circuitBreaker.release();
       if (this.config.debug) {
         console.warn('Smart routing failed, falling back to queue:', (error as Error).message);
       }
-      return await this.queueManager.addMessage(messageData);
+      this.emitRoutingDecision(messageData.number, 'queue', 'routing_error');
+      return await this.enqueue(messageData);
     }
   }
 
@@ -241,24 +1036,40 @@ export class Whaple {
    */
   private async sendDirectWithFallback(messageData: any): Promise<SendMessageResult> {
     try {
-      const result = await this.apiClient.sendMessage(
-        messageData.number, 
-        messageData.message, 
-        messageData.options
-      );
+      const result = messageData.media
+        ? await this.apiClient.sendMedia(messageData.number, messageData.media, messageData.options)
+        : messageData.content
+        ? await this.apiClient.sendContent(messageData.number, messageData.content, messageData.options)
+        : await this.apiClient.sendMessage(
+            messageData.number, 
+            messageData.message, 
+            messageData.options
+          );
+      this.circuitBreaker.recordSuccess();
       
-      return {
+      const sendResult: SendMessageResult = {
         success: true,
         method: 'direct',
         messageId: result.messageId || `direct-${Date.now()}`,
         timestamp: Date.now()
       };
+      this.emit('message:sent', sendResult);
+      return sendResult;
     } catch (error) {
+      // A rejected recipient still means the server is up
+      const errorType = classifyFailure(error);
+      if (errorType === 'not_on_whatsapp' || errorType === 'invalid_number') {
+        this.circuitBreaker.recordSuccess();
+      } else {
+        this.circuitBreaker.recordFailure((error as Error).message);
+      }
+
       // Fallback to queue if direct API fails
       if (this.config.debug) {
         console.warn('Direct API failed, falling back to queue:', (error as Error).message);
       }
-      const queueResult = await this.queueManager.addMessage(messageData);
+      this.emitRoutingDecision(messageData.number, 'queue', 'direct_api_failed');
+      const queueResult = await this.enqueue(messageData);
       return {
         success: queueResult.success,
         method: queueResult.method,
@@ -273,18 +1084,18 @@ export class Whaple {
   /**
    * Force message to queue (bypass health checks)
    * @param number - Phone number
-   * @param message - Message content  
+   * @param message - Text or message content
    * @param options - Additional options
    * @returns Queue result
    */
   async queueMessage(
     number: string, 
-    message: string, 
+    message: string | MessageContent, 
     options: SendMessageOptions = {}
   ): Promise<SendMessageResult> {
     const messageData = {
       number: this.normalizePhoneNumber(number),
-      message,
+      ...this.toMessageFields(message, options.linkPreview),
       options,
       source: 'sdk',
       version: '1.0.0',
@@ -292,11 +1103,247 @@ export class Whaple {
       priority: options.priority || 'medium'
     };
 
-    return await this.queueManager.addMessage(messageData);
+    await this.ensureRecipient(messageData.number, options);
+
+    return await this.withIdempotency(options, () => this.enqueue(messageData));
   }
 
   /**
-   * Force direct API send (bypass queue checks)
+   * Queue a message to be sent at a later time.
+   * Due messages are moved to the queue by the queue worker.
+   * @param number - Phone number
+   * @param message - Text or message content
+   * @param options - `sendAt` (Date or epoch ms) or `delayMs`, plus the usual send options
+   * @returns Schedule result with message ID and send time
+   */
+  async scheduleMessage(
+    number: string,
+    message: string | MessageContent,
+    options: ScheduleMessageOptions
+  ): Promise<SendMessageResult> {
+    const { sendAt, delayMs, ...sendOptions } = options || {};
+    const dueAt = this.resolveSendAt({ sendAt, delayMs });
+
+    const messageData = {
+      number: this.normalizePhoneNumber(number),
+      ...this.toMessageFields(message, sendOptions.linkPreview),
+      options: sendOptions,
+      source: 'sdk',
+      version: '1.0.0',
+      timestamp: Date.now(),
+      priority: sendOptions.priority || 'medium'
+    };
+
+    await this.ensureRecipient(messageData.number, sendOptions);
+
+    if (!this.config.enableQueueWorker && this.config.debug && !this.warnedNoScheduler) {
+      this.warnedNoScheduler = true;
+      console.warn('Scheduled messages are only sent by a queue worker; set enableQueueWorker: true unless a server promotes them');
+    }
+
+    return await this.withIdempotency(sendOptions, async () => {
+      const result = await this.queueManager.scheduleMessage(messageData, dueAt);
+      this.emit('message:queued', result);
+      return result;
+    });
+  }
+
+  /**
+   * List messages waiting for their send time, soonest first
+   * @returns Scheduled messages
+   */
+  async listScheduledMessages(): Promise<ScheduledMessage[]> {
+    return await this.queueManager.listScheduledMessages();
+  }
+
+  /**
+   * Cancel a scheduled message before it is due
+   * @param messageId - Message ID returned by scheduleMessage
+   * @returns True if the message was cancelled, false if it was already queued or unknown
+   */
+  async cancelScheduledMessage(messageId: string): Promise<boolean> {
+    const removed = await this.queueManager.cancelScheduledMessage(messageId);
+    return removed !== null;
+  }
+
+  /**
+   * Move a scheduled message to a new send time
+   * @param messageId - Message ID returned by scheduleMessage
+   * @param options - New `sendAt` or `delayMs` (from now)
+   * @returns Updated scheduled message
+   */
+  async rescheduleMessage(
+    messageId: string,
+    options: Pick<ScheduleMessageOptions, 'sendAt' | 'delayMs'>
+  ): Promise<ScheduledMessage> {
+    return await this.queueManager.rescheduleMessage(messageId, this.resolveSendAt(options));
+  }
+
+  /**
+   * Resolve sendAt/delayMs to an epoch timestamp
+   */
+  private resolveSendAt(options: Pick<ScheduleMessageOptions, 'sendAt' | 'delayMs'>): number {
+    const { sendAt, delayMs } = options || {};
+
+    if ((sendAt === undefined) === (delayMs === undefined)) {
+      throw new ValidationError('Provide either sendAt or delayMs');
+    }
+
+    if (delayMs !== undefined) {
+      if (typeof delayMs !== 'number' || !Number.isFinite(delayMs) || delayMs < 0) {
+        throw new ValidationError('delayMs must be a non-negative number');
+      }
+      return Date.now() + delayMs;
+    }
+
+    const time = sendAt instanceof Date ? sendAt.getTime() : Number(sendAt);
+    if (!Number.isFinite(time)) {
+      throw new ValidationError('sendAt must be a Date or a timestamp in milliseconds');
+    }
+    return time;
+  }
+
+  /**
+   * Move pending messages to another instance's queue, e.g. when this account is logged out.
+   * Stored media is copied to the target's media store; messages a worker has already
+   * claimed, scheduled messages and dead letters stay here.
+   * @param target - Instance that sends the messages instead
+   * @returns Number of messages moved
+   */
+  async transferPendingMessages(target: Whaple): Promise<number> {
+    const pending = await this.queueManager.takePendingMessages();
+    let moved = 0;
+
+    for (const { id, ...record } of pending) {
+      try {
+        const transferred = { ...record, transferredFrom: this.config.sessionId || 'default' };
+        if (record.media?.ref) {
+          const data = await this.mediaStore.load(record.media.ref);
+          transferred.media = { ...record.media, ref: await target.mediaStore.save(data, record.media.filename) };
+        }
+        await target.queueStore.write(`pending/${id}`, transferred);
+        moved++;
+
+        if (record.media?.ref) {
+          await this.mediaStore.remove(record.media.ref).catch(() => undefined);
+        }
+      } catch (error) {
+        // Keep the message here rather than lose it
+        await this.queueStore.write(`pending/${id}`, record);
+        if (this.config.debug) {
+          console.warn(`Failed to transfer message ${id}:`, (error as Error).message);
+        }
+      }
+    }
+
+    return moved;
+  }
+
+  /**
+   * Cancel a pending or scheduled message
+   * @param messageId - Message ID
+   * @returns Cancelled status; rejects with code MESSAGE_PROCESSING once a worker has picked it up
+   */
+  async cancelMessage(messageId: string): Promise<MessageStatus> {
+    const cancelled = await this.queueManager.cancelMessage(messageId);
+
+    if (cancelled.media?.ref) {
+      await this.mediaStore.remove(cancelled.media.ref).catch(() => undefined);
+    }
+
+    return {
+      id: messageId,
+      status: 'cancelled',
+      timestamp: cancelled.cancelledAt
+    };
+  }
+
+  /**
+   * Edit a pending or scheduled message before it is sent
+   * @param messageId - Message ID
+   * @param patch - New number, text, priority or options (options are merged)
+   * @returns Updated queue record
+   */
+  async updateQueuedMessage(messageId: string, patch: QueuedMessagePatch): Promise<any> {
+    if (patch.priority && !['high', 'medium', 'low'].includes(patch.priority)) {
+      throw new ValidationError(`Invalid priority: ${patch.priority}`);
+    }
+
+    return await this.queueManager.updateQueuedMessage(messageId, {
+      ...patch,
+      number: patch.number !== undefined ? this.normalizePhoneNumber(patch.number) : undefined
+    });
+  }
+
+  /**
+   * Move a failed or dead-lettered message back to the queue
+   * @param messageId - Message ID
+   * @returns Queue result
+   */
+  async retryFailed(messageId: string): Promise<SendMessageResult> {
+    const result = await this.queueManager.retryFailed(messageId);
+    this.emit('message:queued', result);
+    return result;
+  }
+
+  /**
+   * Move failed and dead-lettered messages matching a filter back to the queue
+   * @param filter - Optional number, error text, error type, failure time and limit filters
+   * @returns Number and IDs of retried messages
+   */
+  async retryAllFailed(filter: FailedMessageFilter = {}): Promise<RetryFailedResult> {
+    return await this.queueManager.retryAllFailed(this.normalizeFilter(filter));
+  }
+
+  /**
+   * List messages that failed permanently, oldest first
+   * @param filter - Optional number, error text, error type, failure time and limit filters
+   * @returns Dead-lettered messages with their error classification and attempt history
+   */
+  async listDeadLetters(filter: FailedMessageFilter = {}): Promise<DeadLetterMessage[]> {
+    return await this.queueManager.listDeadLetters(this.normalizeFilter(filter));
+  }
+
+  /**
+   * Export dead-lettered messages as JSON or CSV
+   * @param filter - Optional filters, as for listDeadLetters
+   * @param format - 'json' (default) or 'csv'
+   * @returns Serialized messages
+   */
+  async exportDeadLetters(filter: FailedMessageFilter = {}, format: 'json' | 'csv' = 'json'): Promise<string> {
+    return await this.queueManager.exportDeadLetters(this.normalizeFilter(filter), format);
+  }
+
+  /**
+   * Move a dead-lettered message back to the queue
+   * @param messageId - Message ID
+   * @returns Queue result
+   */
+  async requeueDeadLetter(messageId: string): Promise<SendMessageResult> {
+    const result = await this.queueManager.requeueDeadLetter(messageId);
+    this.emit('message:queued', result);
+    return result;
+  }
+
+  /**
+   * Move dead-lettered messages matching a filter back to the queue
+   * @param filter - Optional filters, as for listDeadLetters
+   * @returns Number and IDs of requeued messages
+   */
+  async requeueDeadLetters(filter: FailedMessageFilter = {}): Promise<RetryFailedResult> {
+    return await this.queueManager.requeueDeadLetters(this.normalizeFilter(filter));
+  }
+
+  private normalizeFilter(filter: FailedMessageFilter): FailedMessageFilter {
+    return {
+      ...filter,
+      number: filter.number ? this.normalizePhoneNumber(filter.number) : undefined
+    };
+  }
+
+  /**
+   * Force direct API send (bypass queue checks).
+   * With rateLimit configured this waits for a free slot instead of queueing.
    * @param number - Phone number
    * @param message - Message content
    * @param options - Additional options  
@@ -307,8 +1354,13 @@ export class Whaple {
     message: string, 
     options: SendMessageOptions = {}
   ): Promise<any> {
+    const normalized = this.normalizePhoneNumber(number);
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire(normalized);
+    }
+
     return await this.apiClient.sendMessage(
-      this.normalizePhoneNumber(number),
+      normalized,
       message,
       options
     );
@@ -339,6 +1391,35 @@ export class Whaple {
     return await this.queueManager.getMessageStatus(messageId);
   }
 
+  /**
+   * Watch a queued message as it moves through pending, processing, sent or failed
+   * @param messageId - Message ID to watch
+   * @param callback - Called on every status or queue position change
+   * @returns Unsubscribe function
+   */
+  watchMessage(messageId: string, callback: (status: MessageStatus) => void): () => void {
+    return this.queueManager.watchMessage(messageId, callback);
+  }
+
+  /**
+   * Iterate over status transitions of a queued message until it is sent or failed
+   * @param messageId - Message ID to watch
+   * @returns Async iterator of message statuses
+   */
+  watchMessageStatus(messageId: string): AsyncGenerator<MessageStatus> {
+    return this.queueManager.watchMessageStatus(messageId);
+  }
+
+  /**
+   * Wait until a queued message is sent
+   * @param messageId - Message ID to wait for
+   * @param timeout - Maximum wait in milliseconds (default: queueTimeout)
+   * @returns Final message status; rejects if the message fails or the timeout expires
+   */
+  async waitForDelivery(messageId: string, timeout: number = this.config.queueTimeout): Promise<MessageStatus> {
+    return await this.queueManager.waitForDelivery(messageId, timeout);
+  }
+
   /**
    * Get detailed queue information including individual messages
    * @returns Detailed queue data
@@ -366,12 +1447,12 @@ export class Whaple {
           details: queueDetails
         },
         server: serverStatus,
+        circuitBreaker: this.circuitBreaker.getStatus(),
         sdk: {
           version: '1.0.0',
           config: {
             whatsappServerUrl: this.config.whatsappServerUrl,
             enableSmartRouting: this.config.enableSmartRouting,
-            queueThreshold: this.config.queueThreshold,
             healthCheckTimeout: this.config.healthCheckTimeout
           }
         }
@@ -380,6 +1461,7 @@ export class Whaple {
       return {
         timestamp: Date.now(),
         error: (error as Error).message,
+        circuitBreaker: this.circuitBreaker.getStatus(),
         sdk: {
           version: '1.0.0',
           status: 'error'
@@ -388,18 +1470,151 @@ export class Whaple {
     }
   }
 
+  /**
+   * Send text, media or message content to a group (only available in direct WhatsApp mode).
+   * Uses the same routing as sendMessage: queued while WhatsApp is disconnected.
+   * @param groupId - Group JID or the ID before '@g.us'
+   * @param content - Message text, media or content such as a poll
+   * @param options - Additional options
+   * @returns Result object with success status and details
+   */
+  async sendToGroup(
+    groupId: string,
+    content: string | MediaMessage | MessageContent,
+    options: SendMessageOptions = {}
+  ): Promise<SendMessageResult> {
+    this.requireWhatsAppConnection('Group messaging');
+    const media = typeof content === 'string' || isMessageContent(content) ? undefined : content;
+    if (media) {
+      this.validateMedia(media);
+    }
+
+    const messageData = {
+      number: normalizeGroupJid(groupId),
+      jidType: 'group' as const,
+      ...(media ? { message: media.caption || '', media } : this.toMessageFields(content as string | MessageContent, options.linkPreview)),
+      options,
+      source: 'sdk',
+      version: '1.0.0',
+      timestamp: Date.now(),
+      priority: options.priority || 'medium'
+    };
+
+    return await this.withIdempotency(options, async () => {
+      try {
+        return await this.routeMessage(messageData);
+      } catch (error) {
+        this.emit('message:failed', { number: messageData.number, error: (error as Error).message });
+        throw new Error(`Failed to send group message: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  /**
+   * @returns Every group this account participates in (direct mode only)
+   */
+  async listGroups(): Promise<GroupInfo[]> {
+    return await this.requireWhatsAppConnection('Group management').listGroups();
+  }
+
+  /**
+   * @param groupId - Group JID or ID
+   * @returns Subject, description and participants of the group (direct mode only)
+   */
+  async getGroupMetadata(groupId: string): Promise<GroupInfo> {
+    return await this.requireWhatsAppConnection('Group management').getGroupMetadata(normalizeGroupJid(groupId));
+  }
+
+  /**
+   * Create a group (direct mode only)
+   * @param subject - Group name
+   * @param participants - Phone numbers of the initial members
+   * @returns The new group
+   */
+  async createGroup(subject: string, participants: string[]): Promise<GroupInfo> {
+    const connection = this.requireWhatsAppConnection('Group management');
+    if (!subject || !subject.trim()) {
+      throw new ValidationError('Group subject is required');
+    }
+    if (!Array.isArray(participants) || participants.length === 0) {
+      throw new ValidationError('A group needs at least one participant');
+    }
+
+    return await connection.createGroup(subject.trim(), participants.map(number => this.normalizePhoneNumber(number)));
+  }
+
+  /**
+   * Add members to a group; this account must be a group admin (direct mode only)
+   * @param groupId - Group JID or ID
+   * @param participants - Phone numbers to add
+   * @returns Outcome per participant
+   */
+  async addGroupParticipants(groupId: string, participants: string[]): Promise<GroupParticipantResult[]> {
+    return await this.updateGroupParticipants(groupId, participants, 'add');
+  }
+
+  /**
+   * Remove members from a group; this account must be a group admin (direct mode only)
+   * @param groupId - Group JID or ID
+   * @param participants - Phone numbers to remove
+   * @returns Outcome per participant
+   */
+  async removeGroupParticipants(groupId: string, participants: string[]): Promise<GroupParticipantResult[]> {
+    return await this.updateGroupParticipants(groupId, participants, 'remove');
+  }
+
+  /**
+   * Rename a group (direct mode only)
+   * @param groupId - Group JID or ID
+   * @param subject - New group name
+   */
+  async updateGroupSubject(groupId: string, subject: string): Promise<void> {
+    const connection = this.requireWhatsAppConnection('Group management');
+    if (!subject || !subject.trim()) {
+      throw new ValidationError('Group subject is required');
+    }
+
+    await connection.updateGroupSubject(normalizeGroupJid(groupId), subject.trim());
+  }
+
+  private async updateGroupParticipants(
+    groupId: string,
+    participants: string[],
+    action: 'add' | 'remove'
+  ): Promise<GroupParticipantResult[]> {
+    const connection = this.requireWhatsAppConnection('Group management');
+    if (!Array.isArray(participants) || participants.length === 0) {
+      throw new ValidationError('Participants must be a non-empty array');
+    }
+
+    return await connection.updateGroupParticipants(
+      normalizeGroupJid(groupId),
+      participants.map(number => this.normalizePhoneNumber(number)),
+      action
+    );
+  }
+
+  private requireWhatsAppConnection(feature: string): WhatsAppConnection {
+    if (!this.useDirectWhatsApp || !this.whatsappConnection) {
+      throw new Error(`${feature} is only available in direct WhatsApp mode`);
+    }
+    return this.whatsappConnection;
+  }
+
   /**
    * Get message history for a specific number (only available in direct WhatsApp mode)
    * @param number - Phone number
    * @param limit - Number of messages to retrieve
-   * @returns Message history
+   * @param options - Pass `before` (the previous page's nextCursor) to page back in time
+   * @returns Message history, oldest first
    */
-  async getMessageHistory(number: string, limit: number = 20): Promise<any> {
+  async getMessageHistory(number: string, limit: number = 20, options: MessageHistoryQuery = {}): Promise<any> {
     if (!this.useDirectWhatsApp || !this.whatsappConnection) {
       throw new Error('Message history is only available in direct WhatsApp mode');
     }
     
-    return await this.whatsappConnection.getMessageHistory(number, limit);
+    const chat = String(number).includes('@') ? number : this.normalizePhoneNumber(number);
+    return await this.whatsappConnection.getMessageHistory(chat, limit, options);
   }
 
   /**
@@ -411,24 +1626,12 @@ export class Whaple {
   }
 
   /**
-   * Normalize phone number format
+   * Normalize a phone number to E.164, applying defaultCountryCode to national numbers
    * @param number - Raw phone number
    * @returns Normalized phone number
    */
   private normalizePhoneNumber(number: string): string {
-    if (!number) {
-      throw new ValidationError('Phone number is required');
-    }
-    
-    // Remove all non-digit characters except +
-    let normalized = number.toString().replace(/[^\d+]/g, '');
-    
-    // Add + prefix if not present
-    if (!normalized.startsWith('+')) {
-      normalized = '+' + normalized;
-    }
-    
-    return normalized;
+    return normalizePhoneNumber(number, this.config.defaultCountryCode);
   }
 
   /**
@@ -436,12 +1639,13 @@ export class Whaple {
    * @param newConfig - Configuration updates
    */
   configure(newConfig: Partial<WhapleConfig>): void {
+    const previous = this.config;
     this.config = { ...this.config, ...newConfig };
-    
+
     // Reinitialize services if critical config changed
-    const criticalKeys = ['firebaseConfig', 'whatsappServerUrl', 'apiKey'];
+    const criticalKeys = ['firebaseConfig', 'whatsappServerUrl', 'apiKey', 'queueStore', 'queueStorePath', 'messageHistory', 'rateLimit', 'circuitBreaker', 'templates'];
     if (criticalKeys.some(key => newConfig.hasOwnProperty(key))) {
-      this.initializeServices();
+      this.initializeServices(previous);
     }
   }
 
@@ -450,9 +1654,15 @@ export class Whaple {
    */
   async cleanup(): Promise<void> {
     try {
+      if (this.queueWorker) {
+        await this.queueWorker.stop();
+      }
       if (this.whatsappConnection) {
         await this.whatsappConnection.disconnect();
       }
+      if (this.queueStore?.close) {
+        await this.queueStore.close();
+      }
       if (this.firebaseApp) {
         await this.firebaseApp.delete();
       }
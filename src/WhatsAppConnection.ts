@@ -1,18 +1,54 @@
 import {
   default as makeWASocket,
+  AnyMessageContent,
   DisconnectReason,
+  getContentType,
+  GroupMetadata,
+  isJidGroup,
+  jidNormalizedUser,
+  MiscMessageGenerationOptions,
+  normalizeMessageContent,
+  proto,
+  toNumber,
   useMultiFileAuthState,
+  WAMessage,
+  WAUrlInfo,
   WASocket
 } from '@whiskeysockets/baileys';
 import * as qrcode from 'qrcode-terminal';
 import * as admin from 'firebase-admin';
+import { FirebaseAuthStore, useAuthStateStore } from './FirebaseAuthState';
+import { MessageHistory } from './MessageHistory';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { isSameWhatsAppUser, toWhatsAppJid } from './PhoneNumber';
+import { describeMessageContent, renderMenuText } from './MessageContent';
+import { fetchLinkPreview } from './LinkPreview';
 import { 
   WhatsAppConnectionConfig,
   WhatsAppConnectionStatus,
-  SendMessageResult 
+  SendMessageResult,
+  MediaMessage,
+  MediaType,
+  MessageContent,
+  MessageReference,
+  IncomingMessage,
+  HistoryMessage,
+  MessageHistoryQuery,
+  WhatsAppRegistration,
+  GroupInfo,
+  GroupParticipantResult,
+  WhatsAppConnectionEvents
 } from './types';
 
-export class WhatsAppConnection {
+const MEDIA_CONTENT_TYPES: Record<string, MediaType> = {
+  imageMessage: 'image',
+  videoMessage: 'video',
+  audioMessage: 'audio',
+  documentMessage: 'document',
+  stickerMessage: 'sticker'
+};
+
+export class WhatsAppConnection extends TypedEventEmitter<WhatsAppConnectionEvents> {
   private sock?: WASocket;
   private isConnected = false;
   private isAuthenticated = false;
@@ -28,12 +64,16 @@ export class WhatsAppConnection {
   private lastQRTime?: Date;
   private config: WhatsAppConnectionConfig;
   private firebaseApp?: admin.app.App;
+  private clearAuthState?: () => Promise<void>;
+  private messageHistory?: MessageHistory;
 
   constructor(config: WhatsAppConnectionConfig) {
+    super();
     this.config = {
       printQRInTerminal: true,
       useFirebaseAuth: true,
       authPath: 'auth_info_baileys',
+      firebaseAuthPath: 'whatsapp_auth',
       ...config
     };
   }
@@ -84,19 +124,37 @@ export class WhatsAppConnection {
   private async getAuthState() {
     let state: any, saveCreds: any;
 
+    if (this.config.authStore) {
+      const storeResult = await useAuthStateStore(this.config.authStore);
+      this.clearAuthState = storeResult.clearState;
+      console.log("🗄️ Using custom auth state store");
+      return { state: storeResult.state, saveCreds: storeResult.saveCreds };
+    }
+
     if (this.config.useFirebaseAuth && this.firebaseApp) {
+      let store: FirebaseAuthStore | undefined;
       try {
         console.log("🔥 Attempting Firebase authentication...");
-        // Note: You'll need to implement Firebase auth state logic here
-        // For now, falling back to file-based auth
-        throw new Error('Firebase auth not implemented in this version');
+        store = new FirebaseAuthStore(
+          admin.database(this.firebaseApp),
+          this.config.firebaseAuthPath
+        );
       } catch (firebaseError) {
         console.log("❌ Firebase authentication failed:", (firebaseError as Error).message);
         console.log("🔄 Falling back to file-based authentication...");
       }
+
+      if (store) {
+        // A failed read is not a missing session; it fails this attempt and the connection retries
+        const firebaseResult = await useAuthStateStore(store);
+        this.clearAuthState = firebaseResult.clearState;
+        console.log("🔥 Using Firebase authentication at", this.config.firebaseAuthPath);
+        return { state: firebaseResult.state, saveCreds: firebaseResult.saveCreds };
+      }
     }
 
     // File-based authentication fallback
+    this.clearAuthState = undefined;
     const fileResult = await useMultiFileAuthState(this.config.authPath || 'auth_info_baileys');
     state = fileResult.state;
     saveCreds = fileResult.saveCreds;
@@ -151,6 +209,7 @@ export class WhatsAppConnection {
           this.isAuthenticated = false;
           this.isConnected = false;
           this.resetReconnectState();
+          this.emit("qr", qr);
         }
 
         if (connection === "close") {
@@ -167,6 +226,12 @@ export class WhatsAppConnection {
           this.connectionState = "disconnected";
           this.isReconnecting = false;
 
+          this.emit("disconnected", {
+            reason: lastDisconnect?.error?.message,
+            statusCode,
+            willReconnect: shouldReconnect
+          });
+
           if (statusCode === DisconnectReason.loggedOut) {
             console.log("🚫 Logged out - clearing auth and requiring new QR scan");
             this.isAuthenticated = false;
@@ -174,6 +239,12 @@ export class WhatsAppConnection {
             this.currentQR = undefined;
             this.lastQRTime = undefined;
             this.resetReconnectState();
+            if (this.clearAuthState) {
+              this.clearAuthState().catch((error) =>
+                console.log("Error clearing auth state:", (error as Error).message)
+              );
+            }
+            this.emit("loggedOut");
           } else if (statusCode === DisconnectReason.restartRequired) {
             console.log("🔁 Restart required - reconnecting immediately");
             this.reconnectAttempts = 0;
@@ -204,6 +275,7 @@ export class WhatsAppConnection {
           }
           console.log("🚀 Status: READY FOR MESSAGES");
           console.log("🟢 ============================= 🟢\n");
+          this.emit("connected", this.userInfo);
         } else if (connection === "connecting") {
           console.log("🔄 Connecting to WhatsApp...");
           this.connectionState = "connecting";
@@ -212,6 +284,78 @@ export class WhatsAppConnection {
       });
 
       this.sock.ev.on("creds.update", (creds: any) => saveCreds(creds));
+
+      this.sock.ev.on("messages.update", (updates) => {
+        for (const { key, update } of updates) {
+          if (!key.fromMe || !key.id || !key.remoteJid || update.status == null) {
+            continue;
+          }
+
+          const status = update.status >= proto.WebMessageInfo.Status.READ
+            ? 'read'
+            : update.status === proto.WebMessageInfo.Status.DELIVERY_ACK ? 'delivered' : null;
+          if (status) {
+            this.emit("receipt", {
+              messageId: key.id,
+              chatId: key.remoteJid,
+              status,
+              timestamp: Date.now()
+            });
+          }
+        }
+      });
+
+      // Per-recipient receipts, mainly for group messages
+      this.sock.ev.on("message-receipt.update", (updates) => {
+        for (const { key, receipt } of updates) {
+          if (!key.fromMe || !key.id || !key.remoteJid) {
+            continue;
+          }
+
+          const readTimestamp = receipt.readTimestamp || receipt.playedTimestamp;
+          const timestamp = readTimestamp || receipt.receiptTimestamp;
+          if (!timestamp) {
+            continue;
+          }
+
+          this.emit("receipt", {
+            messageId: key.id,
+            chatId: key.remoteJid,
+            status: readTimestamp ? 'read' : 'delivered',
+            timestamp: toNumber(timestamp) * 1000,
+            recipient: receipt.userJid
+          });
+        }
+      });
+
+      this.sock.ev.on("messages.upsert", ({ messages, type }) => {
+        const normalized = messages
+          .map(waMessage => this.normalizeIncomingMessage(waMessage))
+          .filter((message): message is IncomingMessage => message !== null);
+
+        // Both sent and received messages belong in the history
+        this.recordHistory(normalized);
+
+        // 'append' upserts are history/offline catch-up and our own sends, not new inbound messages
+        if (type !== "notify") {
+          return;
+        }
+
+        for (const incoming of normalized) {
+          console.log(`📩 Incoming ${incoming.type} from ${incoming.sender}`);
+          this.emit("message", incoming);
+        }
+      });
+
+      // Chats synced from the phone after linking
+      this.sock.ev.on("messaging-history.set", ({ messages }) => {
+        const normalized = messages
+          .map(waMessage => this.normalizeIncomingMessage(waMessage))
+          .filter((message): message is IncomingMessage => message !== null);
+
+        console.log(`📚 History sync: ${normalized.length} messages`);
+        this.recordHistory(normalized);
+      });
     } catch (error) {
       console.error("❌ Error during WhatsApp connection setup:", error);
       this.isConnected = false;
@@ -280,26 +424,36 @@ export class WhatsAppConnection {
     return this.currentQR;
   }
 
-  async sendMessage(number: string, message: string): Promise<SendMessageResult> {
-    console.log(`🔍 sendMessage called with number: ${number}, message length: ${message.length}`);
+  /**
+   * Send text or structured content (reply, reaction, poll, buttons, list, location or contact)
+   * @param number - E.164 number or JID
+   * @param message - Text or MessageContent
+   * @returns Send result with the WhatsApp message key
+   */
+  async sendMessage(number: string, message: string | MessageContent): Promise<SendMessageResult> {
+    const text = typeof message === 'string' ? message : describeMessageContent(message);
+    console.log(`🔍 sendMessage called with number: ${number}, ${typeof message === 'string' ? `message length: ${text.length}` : `content: ${message.type}`}`);
     
     if (!this.isConnected || !this.sock) {
       console.log(`❌ WhatsApp not ready - Connected: ${this.isConnected}, Sock: ${!!this.sock}`);
       throw new Error('WhatsApp not connected');
     }
     
-    // Clean and format the number
-    const cleanNumber = number.replace(/[^\d]/g, ''); // Remove non-digits
-    const formattedNumber = cleanNumber.includes('@') ? cleanNumber : `${cleanNumber}@s.whatsapp.net`;
+    const formattedNumber = toWhatsAppJid(number);
     
     console.log(`📱 Original number: ${number}`);
-    console.log(`📱 Clean number: ${cleanNumber}`);
     console.log(`📱 Formatted number: ${formattedNumber}`);
-    console.log(`📨 Message preview: ${message.substring(0, 50)}...`);
+    console.log(`📨 Message preview: ${text.substring(0, 50)}...`);
     
     try {
       console.log(`🚀 Calling sock.sendMessage...`);
-      const result = await this.sock.sendMessage(formattedNumber, { text: message });
+      const result = typeof message === 'string'
+        ? await this.sock.sendMessage(formattedNumber, { text: message })
+        : await this.sock.sendMessage(
+            formattedNumber,
+            await this.buildContent(message, formattedNumber),
+            this.buildSendOptions(message, formattedNumber)
+          );
       console.log(`✅ sock.sendMessage completed:`, result);
       
       return {
@@ -315,59 +469,342 @@ export class WhatsAppConnection {
     }
   }
 
-  async getMessageHistory(number: string, limit: number = 20): Promise<any> {
+  async sendMedia(number: string, media: MediaMessage): Promise<SendMessageResult> {
+    console.log(`🔍 sendMedia called with number: ${number}, type: ${media.type}`);
+
+    if (!this.isConnected || !this.sock) {
+      console.log(`❌ WhatsApp not ready - Connected: ${this.isConnected}, Sock: ${!!this.sock}`);
+      throw new Error('WhatsApp not connected');
+    }
+
+    const formattedNumber = toWhatsAppJid(number);
+
+    try {
+      console.log(`🚀 Calling sock.sendMessage with ${media.type}...`);
+      const result = await this.sock.sendMessage(formattedNumber, this.buildMediaContent(media));
+      console.log(`✅ sock.sendMessage completed:`, result?.key);
+
+      return {
+        success: true,
+        method: 'direct',
+        messageId: result?.key?.id || `direct-${Date.now()}`,
+        timestamp: Date.now(),
+        key: result
+      };
+    } catch (error) {
+      console.error(`❌ sock.sendMessage (media) failed:`, error);
+      throw error;
+    }
+  }
+
+  private async buildContent(content: MessageContent, chatJid: string): Promise<AnyMessageContent> {
+    switch (content.type) {
+      case 'text':
+        if (content.linkPreview === undefined) {
+          return { text: content.text };
+        }
+        return { text: content.text, linkPreview: content.linkPreview ? await this.buildLinkPreview(content.text) : null };
+      case 'reaction':
+        return { react: { text: content.emoji, key: this.toMessageKey(content.message, chatJid) } };
+      case 'poll':
+        return {
+          poll: { name: content.name, values: content.options, selectableCount: content.selectableCount ?? 1 }
+        };
+      case 'buttons':
+      case 'list':
+        // Multi-device WhatsApp no longer delivers button and list messages, so send a numbered menu
+        return { text: renderMenuText(content) };
+      case 'location':
+        return {
+          location: {
+            degreesLatitude: content.lat,
+            degreesLongitude: content.lng,
+            name: content.name,
+            address: content.address
+          }
+        };
+      case 'contact':
+        return { contacts: { displayName: content.displayName, contacts: [{ vcard: content.vcard }] } };
+      default:
+        throw new Error(`Unsupported content type: ${(content as MessageContent).type}`);
+    }
+  }
+
+  private async buildLinkPreview(text: string): Promise<WAUrlInfo | null> {
+    const preview = await fetchLinkPreview(text);
+    if (!preview) {
+      console.log(`⚠️ No link preview available, sending without one`);
+      return null;
+    }
+
+    return {
+      'canonical-url': preview.url,
+      'matched-text': preview.matchedText,
+      title: preview.title,
+      description: preview.description
+    };
+  }
+
+  private buildSendOptions(content: MessageContent, chatJid: string): MiscMessageGenerationOptions | undefined {
+    if (!('quoted' in content) || !content.quoted) {
+      return undefined;
+    }
+
+    return {
+      quoted: {
+        key: this.toMessageKey(content.quoted, chatJid),
+        message: { conversation: content.quoted.text || '' }
+      }
+    };
+  }
+
+  private toMessageKey(reference: MessageReference, chatJid: string): proto.IMessageKey {
+    return {
+      remoteJid: reference.chatId || chatJid,
+      id: reference.id,
+      fromMe: !!reference.fromMe,
+      ...(reference.participant ? { participant: reference.participant } : {})
+    };
+  }
+
+  private buildMediaContent(media: MediaMessage): AnyMessageContent {
+    // Baileys streams { url } sources itself and accepts both local paths and http(s) URLs
+    const source = Buffer.isBuffer(media.source) ? media.source : { url: media.source };
+
+    switch (media.type) {
+      case 'image':
+        return { image: source, caption: media.caption, mimetype: media.mimetype };
+      case 'video':
+        return { video: source, caption: media.caption, mimetype: media.mimetype };
+      case 'audio':
+        return { audio: source, mimetype: media.mimetype || 'audio/mp4', ptt: media.ptt };
+      case 'document':
+        return {
+          document: source,
+          mimetype: media.mimetype || 'application/octet-stream',
+          fileName: media.filename,
+          caption: media.caption
+        };
+      case 'sticker':
+        return { sticker: source };
+      default:
+        throw new Error(`Unsupported media type: ${(media as MediaMessage).type}`);
+    }
+  }
+
+  /**
+   * Convert a Baileys message into the SDK's inbound message shape
+   * @param waMessage - Raw Baileys message
+   * @returns Normalized message, or null for protocol/empty messages
+   */
+  private normalizeIncomingMessage(waMessage: WAMessage): IncomingMessage | null {
+    const content = normalizeMessageContent(waMessage.message);
+    const contentType = getContentType(content);
+    const chatId = waMessage.key.remoteJid;
+
+    if (!content || !contentType || !chatId || contentType === 'protocolMessage' || contentType === 'senderKeyDistributionMessage') {
+      return null;
+    }
+
+    const isGroup = !!isJidGroup(chatId);
+    const senderJid = jidNormalizedUser(
+      waMessage.key.fromMe
+        ? this.sock?.user?.id
+        : (isGroup ? waMessage.key.participant || '' : chatId)
+    );
+    const body: any = (content as any)[contentType] || {};
+
+    const incoming: IncomingMessage = {
+      id: waMessage.key.id || `in-${Date.now()}`,
+      chatId,
+      sender: `+${senderJid.split('@')[0]}`,
+      senderJid,
+      pushName: waMessage.pushName || undefined,
+      isGroup,
+      fromMe: !!waMessage.key.fromMe,
+      type: contentType,
+      text: content.conversation || body.text || body.caption || undefined,
+      timestamp: waMessage.messageTimestamp ? toNumber(waMessage.messageTimestamp) * 1000 : Date.now(),
+      raw: waMessage
+    };
+
+    const mediaType = MEDIA_CONTENT_TYPES[contentType];
+    if (mediaType) {
+      incoming.media = {
+        type: mediaType,
+        mimetype: body.mimetype || undefined,
+        caption: body.caption || undefined,
+        filename: body.fileName || undefined,
+        fileLength: body.fileLength ? toNumber(body.fileLength) : undefined,
+        seconds: body.seconds || undefined
+      };
+    }
+
+    const contextInfo = body.contextInfo;
+    if (contextInfo?.stanzaId) {
+      const quotedContent = normalizeMessageContent(contextInfo.quotedMessage);
+      const quotedType = getContentType(quotedContent);
+      const quotedBody: any = quotedType ? (quotedContent as any)[quotedType] : {};
+      incoming.quoted = {
+        id: contextInfo.stanzaId,
+        participant: contextInfo.participant || undefined,
+        text: quotedContent?.conversation || quotedBody?.text || quotedBody?.caption || undefined
+      };
+    }
+
+    return incoming;
+  }
+
+  private recordHistory(messages: IncomingMessage[]): void {
+    if (!this.messageHistory || messages.length === 0) {
+      return;
+    }
+
+    const records: HistoryMessage[] = messages.map(({ raw, ...message }) => message);
+    this.messageHistory.record(records).catch(error => {
+      console.error("❌ Failed to record message history:", error);
+    });
+  }
+
+  /**
+   * Look up which numbers have a WhatsApp account
+   * @param numbers - E.164 phone numbers
+   * @returns One entry per number, in the same order
+   */
+  async onWhatsApp(numbers: string[]): Promise<WhatsAppRegistration[]> {
+    if (!this.isConnected || !this.sock) {
+      throw new Error('WhatsApp not connected');
+    }
+
+    const jids = numbers.map(number => toWhatsAppJid(number));
+    const results = (await this.sock.onWhatsApp(...jids)) || [];
+    const checkedAt = Date.now();
+
+    return numbers.map((number, index) => {
+      // The answer carries WhatsApp's form of the number, which can differ from the one asked about
+      const match = results.find(result => isSameWhatsAppUser(result.jid, jids[index]));
+      return { number, exists: !!match?.exists, jid: match?.jid, checkedAt };
+    });
+  }
+
+  /**
+   * @returns Every group this account participates in
+   */
+  async listGroups(): Promise<GroupInfo[]> {
+    const groups = await this.requireSocket().groupFetchAllParticipating();
+    return Object.values(groups).map(group => this.toGroupInfo(group));
+  }
+
+  /**
+   * @param groupJid - Group JID
+   * @returns Subject, description and participants of the group
+   */
+  async getGroupMetadata(groupJid: string): Promise<GroupInfo> {
+    return this.toGroupInfo(await this.requireSocket().groupMetadata(groupJid));
+  }
+
+  /**
+   * @param subject - Group name
+   * @param numbers - E.164 numbers of the initial participants
+   * @returns The new group
+   */
+  async createGroup(subject: string, numbers: string[]): Promise<GroupInfo> {
+    const sock = this.requireSocket();
+    console.log(`👥 Creating group "${subject}" with ${numbers.length} participants`);
+    return this.toGroupInfo(await sock.groupCreate(subject, numbers.map(number => toWhatsAppJid(number))));
+  }
+
+  /**
+   * Add or remove group participants; requires admin rights in the group
+   * @param groupJid - Group JID
+   * @param numbers - E.164 numbers
+   * @param action - 'add' or 'remove'
+   * @returns Outcome per participant
+   */
+  async updateGroupParticipants(
+    groupJid: string,
+    numbers: string[],
+    action: 'add' | 'remove'
+  ): Promise<GroupParticipantResult[]> {
+    const sock = this.requireSocket();
+    const results = await sock.groupParticipantsUpdate(groupJid, numbers.map(number => toWhatsAppJid(number)), action);
+
+    return results.map(result => ({
+      jid: result.jid,
+      number: this.jidToNumber(result.jid),
+      status: String(result.status),
+      success: String(result.status) === '200'
+    }));
+  }
+
+  /**
+   * @param groupJid - Group JID
+   * @param subject - New group name
+   */
+  async updateGroupSubject(groupJid: string, subject: string): Promise<void> {
+    await this.requireSocket().groupUpdateSubject(groupJid, subject);
+  }
+
+  private requireSocket(): WASocket {
+    if (!this.isConnected || !this.sock) {
+      throw new Error('WhatsApp not connected');
+    }
+    return this.sock;
+  }
+
+  private toGroupInfo(metadata: GroupMetadata): GroupInfo {
+    const participants = (metadata.participants || []).map(participant => ({
+      jid: participant.id,
+      number: this.jidToNumber(participant.id),
+      isAdmin: participant.admin === 'admin' || participant.admin === 'superadmin',
+      isSuperAdmin: participant.admin === 'superadmin'
+    }));
+
+    return {
+      id: metadata.id,
+      subject: metadata.subject,
+      description: metadata.desc,
+      owner: metadata.owner,
+      createdAt: metadata.creation ? metadata.creation * 1000 : undefined,
+      announce: !!metadata.announce,
+      size: metadata.size ?? participants.length,
+      participants
+    };
+  }
+
+  private jidToNumber(jid: string): string | undefined {
+    return jid?.endsWith('@s.whatsapp.net') ? `+${jidNormalizedUser(jid).split('@')[0]}` : undefined;
+  }
+
+  async getMessageHistory(number: string, limit: number = 20, query: MessageHistoryQuery = {}): Promise<any> {
     console.log(`📖 getMessageHistory called with number: ${number}, limit: ${limit}`);
     
     if (!this.isConnected || !this.sock) {
       console.log(`❌ WhatsApp not ready for message history - Connected: ${this.isConnected}, Sock: ${!!this.sock}`);
       throw new Error('WhatsApp not connected');
     }
+
+    if (!this.messageHistory) {
+      throw new Error('Message history is not enabled');
+    }
     
-    // Clean and format the number
-    const cleanNumber = number.replace(/[^\d]/g, '');
-    const formattedNumber = cleanNumber.includes('@') ? cleanNumber : `${cleanNumber}@s.whatsapp.net`;
+    const formattedNumber = toWhatsAppJid(number);
     
     console.log(`📱 Getting history for: ${formattedNumber}`);
     
     try {
-      // Try to get chat messages using Baileys methods
-      // Note: This is a basic implementation, actual message history retrieval
-      // may require different approaches depending on Baileys version
-      
-      console.log(`📖 Attempting to fetch chat history...`);
-      
-      // Method 1: Try to get existing chat
-      const chatId = formattedNumber;
-      const messages = await this.sock.chatModify(
-        { star: { messages: [], star: false } },
-        chatId
-      ).catch(() => null);
-      
-      if (messages) {
-        console.log(`📖 Found chat history via chatModify`);
-        const messageArray = Array.isArray(messages) ? messages : [];
-        return {
-          success: true,
-          number: formattedNumber,
-          messageCount: messageArray.length,
-          messages: messageArray.slice(0, limit),
-          method: 'chatModify',
-          timestamp: Date.now()
-        };
-      }
-      
-      // Method 2: Fallback - return empty but successful response
-      console.log(`📖 No messages found, returning empty history`);
+      const page = await this.messageHistory.getHistory(formattedNumber, { ...query, limit });
+
       return {
         success: true,
         number: formattedNumber,
-        messageCount: 0,
-        messages: [],
-        note: 'No message history available or chat not found',
-        method: 'fallback',
+        messageCount: page.messages.length,
+        messages: page.messages,
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor,
+        method: 'store',
         timestamp: Date.now()
       };
-      
     } catch (error) {
       console.error(`❌ getMessageHistory failed:`, error);
       throw error;
@@ -378,6 +815,10 @@ export class WhatsAppConnection {
     this.firebaseApp = firebaseApp;
   }
 
+  setMessageHistory(messageHistory: MessageHistory | undefined): void {
+    this.messageHistory = messageHistory;
+  }
+
   async getQueueStatus(): Promise<any> {
     // This method should be implemented to get queue status from Firebase
     // For now, return a basic status
@@ -8,9 +8,110 @@ export interface WhapleConfig {
   healthCheckTimeout?: number;
   queueTimeout?: number;
   enableSmartRouting?: boolean;
+  /** @deprecated Smart routing no longer reads the queue before sending; see circuitBreaker */
   queueThreshold?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  /**
+   * Name of this WhatsApp account when several run in one process (see SessionManager).
+   * Scopes the queue, auth state, history and media paths, e.g. message_queue/sessions/{sessionId}.
+   */
+  sessionId?: string;
+  /** How long isOnWhatsApp results are cached in milliseconds (default: 1 hour, 0 disables) */
+  registrationCacheTTL?: number;
+  /** Calling code for numbers entered without one, e.g. '27' turns '0821234567' into '+27821234567' */
+  defaultCountryCode?: string;
+  /** Milliseconds a queued message waits before moving up one priority class (0 disables) */
+  priorityAgingInterval?: number;
+  /** How long idempotency keys are remembered in milliseconds (default: 24 hours) */
+  idempotencyWindow?: number;
+  /** When queued messages are retried and when they are dead-lettered */
+  retryPolicy?: RetryPolicy;
+  /** Client-side send rate limit; messages over the limit are queued */
+  rateLimit?: RateLimitConfig;
+  /** When smart routing stops sending to the API server and queues instead */
+  circuitBreaker?: CircuitBreakerConfig;
+  enableQueueWorker?: boolean;
+  queueWorker?: QueueWorkerConfig;
+  whatsappAuthPath?: string;
+  authStore?: AuthStateStore;
+  queueStore?: QueueStoreType | QueueStore;
+  queueStorePath?: string;
+  mediaStore?: MediaStore;
+  mediaStoragePath?: string;
+  incomingMessages?: IncomingMessageConfig;
+  messageHistory?: MessageHistoryConfig;
+  templates?: TemplateConfig;
+}
+
+export interface RateLimitConfig {
+  /** Sustained global send rate (default: 20) */
+  messagesPerMinute?: number;
+  /** Messages that can be sent back to back before the rate applies (default: messagesPerMinute) */
+  burst?: number;
+  /** Minimum milliseconds between two messages to the same recipient (default: 0) */
+  perRecipientInterval?: number;
+}
+
+export interface CircuitBreakerConfig {
+  /** Share of failed API calls in the window that opens the circuit, 0 to 1 (default: 0.5) */
+  failureThreshold?: number;
+  /** Calls in the window before the failure rate is acted on (default: 5) */
+  minimumCalls?: number;
+  /** Most recent API calls the failure rate is computed over (default: 20) */
+  windowSize?: number;
+  /** Milliseconds the circuit stays open before a trial call (default: 30000) */
+  openDuration?: number;
+}
+
+export interface MessageHistoryConfig {
+  /** Record sent and received messages (default: true in direct mode) */
+  enabled?: boolean;
+  /** Where history is kept (default: 'memory') */
+  store?: QueueStoreType | QueueStore;
+  /** RTDB root ('firebase') or JSON file path ('file') */
+  storePath?: string;
+}
+
+export interface TemplateConfig {
+  /** Where templates are kept; use 'firebase' to edit them without redeploying (default: 'memory') */
+  store?: QueueStoreType | QueueStore;
+  /** RTDB root ('firebase') or JSON file path ('file') */
+  storePath?: string;
+  /** Locale used when neither the requested nor the template's default locale exists (default: 'en') */
+  defaultLocale?: string;
+}
+
+export interface MessageTemplate {
+  /** Message text per locale (e.g. 'en', 'pt-BR') with {{variable}} placeholders */
+  locales: Record<string, string>;
+  /** Locale used when the requested one is missing (default: the first locale) */
+  defaultLocale?: string;
+}
+
+export interface StoredTemplate extends MessageTemplate {
+  name: string;
+  defaultLocale: string;
+  updatedAt: number;
+}
+
+export type TemplateVariables = Record<string, string | number>;
+
+export interface SendTemplateOptions extends SendMessageOptions {
+  /** Preferred locale; 'pt-BR' falls back to 'pt', then the template's default */
+  locale?: string;
+}
+
+export interface IncomingMessageConfig {
+  /** Save inbound messages to the queue store under incoming/{id} */
+  persist?: boolean;
+  /** POST each inbound message to this URL */
+  webhookUrl?: string;
+  /** Signs webhook bodies with HMAC-SHA256 in the X-Whaple-Signature header */
+  webhookSecret?: string;
+  webhookTimeout?: number;
+  /** Skip messages sent from this account (default: true) */
+  ignoreFromMe?: boolean;
 }
 
 export interface FirebaseServiceAccount {
@@ -26,39 +127,363 @@ export interface FirebaseServiceAccount {
   client_x509_cert_url: string;
 }
 
+export type MessagePriority = 'high' | 'medium' | 'low';
+
 export interface SendMessageOptions {
   source?: string;
   timestamp?: number;
-  priority?: 'high' | 'medium' | 'low';
+  priority?: MessagePriority;
   retryCount?: number;
+  /** Replays with the same key within the idempotency window return the original result */
+  idempotencyKey?: string;
+  /** Check the number with isOnWhatsApp first and reject with NotOnWhatsAppError instead of sending or queueing */
+  verifyRecipient?: boolean;
+  /** For text messages: attach a title and description preview of the first URL */
+  linkPreview?: boolean;
+  /** SessionManager: session that sends the message */
+  sessionId?: string;
+  /** SessionManager: session ID or connected phone number of the sending account */
+  from?: string;
   [key: string]: any;
 }
 
+export interface GroupParticipant {
+  jid: string;
+  /** E.164 number for phone-number JIDs */
+  number?: string;
+  isAdmin: boolean;
+  isSuperAdmin: boolean;
+}
+
+export interface GroupInfo {
+  /** Group JID, e.g. 120363025246125486@g.us */
+  id: string;
+  subject: string;
+  description?: string;
+  owner?: string;
+  /** Creation time in milliseconds since the epoch */
+  createdAt?: number;
+  /** Only admins can send messages */
+  announce: boolean;
+  size: number;
+  participants: GroupParticipant[];
+}
+
+export interface GroupParticipantResult {
+  jid: string;
+  number?: string;
+  /** Status code returned by WhatsApp, e.g. '200', '403' or '409' */
+  status: string;
+  success: boolean;
+}
+
+export interface WhatsAppRegistration {
+  /** E.164 phone number */
+  number: string;
+  exists: boolean;
+  /** JID reported by WhatsApp when the number exists */
+  jid?: string;
+  checkedAt: number;
+}
+
 export interface SendMessageResult {
   success: boolean;
   messageId: string;
-  method: 'direct' | 'queued';
+  /** 'failed' only in sendBulk results for messages that were neither sent nor queued */
+  method: 'direct' | 'queued' | 'scheduled' | 'failed';
   timestamp: number;
   position?: number;
+  /** When a scheduled message becomes due */
+  sendAt?: number;
+  /** True when this result was returned for a repeated idempotency key */
+  replayed?: boolean;
   queueId?: string;
   error?: string;
   key?: any;
+  /** SessionManager: session that sent or queued the message */
+  sessionId?: string;
+}
+
+export type MediaType = 'image' | 'document' | 'audio' | 'video' | 'sticker';
+
+export interface MediaMessage {
+  type: MediaType;
+  /** Buffer, local file path or http(s) URL */
+  source: Buffer | string;
+  mimetype?: string;
+  caption?: string;
+  filename?: string;
+  /** Send audio as a voice note */
+  ptt?: boolean;
+}
+
+/**
+ * Media as stored in the queue: a reference to the content, never the bytes
+ */
+export interface QueuedMedia {
+  type: MediaType;
+  url?: string;
+  path?: string;
+  ref?: string;
+  mimetype?: string;
+  caption?: string;
+  filename?: string;
+  ptt?: boolean;
+}
+
+export interface MediaStore {
+  save(data: Buffer, filename?: string): Promise<string>;
+  load(ref: string): Promise<Buffer>;
+  remove(ref: string): Promise<void>;
+}
+
+/**
+ * A message to reply or react to; build one from an IncomingMessage with toMessageReference()
+ */
+export interface MessageReference {
+  id: string;
+  /** Chat JID (default: the recipient's chat) */
+  chatId?: string;
+  /** True if this account sent the referenced message */
+  fromMe?: boolean;
+  /** Sender JID, required for messages from other members of a group */
+  participant?: string;
+  /** Text of the referenced message, shown in the reply preview */
+  text?: string;
+}
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+  /** true fetches a preview of the first URL before sending; false sends the URL without one */
+  linkPreview?: boolean;
+  quoted?: MessageReference;
+}
+
+export interface ReactionContent {
+  type: 'reaction';
+  /** A single emoji; an empty string removes an earlier reaction */
+  emoji: string;
+  message: MessageReference;
+}
+
+export interface PollContent {
+  type: 'poll';
+  name: string;
+  /** 2 to 12 distinct answers */
+  options: string[];
+  /** Answers a voter may pick (default: 1, 0 allows any number) */
+  selectableCount?: number;
+  quoted?: MessageReference;
+}
+
+export interface MessageButton {
+  id: string;
+  text: string;
+}
+
+export interface ButtonsContent {
+  type: 'buttons';
+  text: string;
+  footer?: string;
+  /** 1 to 3 buttons */
+  buttons: MessageButton[];
+  quoted?: MessageReference;
+}
+
+export interface ListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface ListSection {
+  title: string;
+  rows: ListRow[];
+}
+
+export interface ListContent {
+  type: 'list';
+  text: string;
+  /** Label of the button that opens the list */
+  buttonText: string;
+  title?: string;
+  footer?: string;
+  sections: ListSection[];
+  quoted?: MessageReference;
+}
+
+export interface LocationContent {
+  type: 'location';
+  /** Latitude in degrees, -90 to 90 */
+  lat: number;
+  /** Longitude in degrees, -180 to 180 */
+  lng: number;
+  name?: string;
+  address?: string;
+  quoted?: MessageReference;
+}
+
+export interface ContactContent {
+  type: 'contact';
+  /** Name shown on the contact card */
+  displayName: string;
+  /** vCard 3.0 text, see buildVCard */
+  vcard: string;
+  quoted?: MessageReference;
+}
+
+export type VCardPhoneType = 'cell' | 'work' | 'home' | 'main';
+
+export interface VCardPhone {
+  number: string;
+  type?: VCardPhoneType;
+}
+
+/** Fields for buildVCard / sendContact */
+export interface VCardFields {
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  organization?: string;
+  title?: string;
+  /** At least one number; numbers are normalized to E.164 and linked to their WhatsApp account */
+  phones: Array<string | VCardPhone>;
+  emails?: string[];
+  /** http(s) URL */
+  url?: string;
+  note?: string;
+}
+
+export interface LinkPreview {
+  url: string;
+  /** URL as it appears in the message text */
+  matchedText: string;
+  title: string;
+  description?: string;
 }
 
+export type MessageContent =
+  | TextContent
+  | ReactionContent
+  | PollContent
+  | ButtonsContent
+  | ListContent
+  | LocationContent
+  | ContactContent;
+
+/** What a queued message's `number` holds: an E.164 phone number or a group JID */
+export type JidType = 'user' | 'group';
+
 export interface QueueMessage {
   id: string;
   number: string;
+  /** Absent on records queued before group support, which are always 'user' */
+  jidType?: JidType;
+  /** Plain-text summary; the text itself for text messages */
   message: string;
+  /** Structured content for replies, reactions, polls and menus */
+  content?: MessageContent;
+  media?: QueuedMedia;
   options: SendMessageOptions;
-  status: 'pending' | 'processing' | 'sent' | 'failed';
+  priority?: MessagePriority;
+  idempotencyKey?: string;
+  status: 'scheduled' | 'pending' | 'processing' | 'sent' | 'failed' | 'dead_letter' | 'cancelled';
   timestamp: number;
   retryCount: number;
   lastError?: string;
+  lastErrorType?: FailureType;
+  /** Earliest time the worker will retry the message */
+  nextAttemptAt?: number;
   position?: number;
+  /** Session whose queue held the message before a SessionManager failover */
+  transferredFrom?: string;
+}
+
+export interface ScheduleMessageOptions extends SendMessageOptions {
+  /** Absolute send time */
+  sendAt?: Date | number;
+  /** Send after this many milliseconds */
+  delayMs?: number;
+}
+
+export interface ScheduledMessage {
+  id: string;
+  number: string;
+  jidType?: JidType;
+  message: string;
+  content?: MessageContent;
+  media?: QueuedMedia;
+  options: SendMessageOptions;
+  priority?: MessagePriority;
+  status: 'scheduled';
+  scheduledAt: number;
+  sendAt: number;
+}
+
+export interface QueuedMessagePatch {
+  number?: string;
+  message?: string;
+  priority?: MessagePriority;
+  /** Merged into the existing options */
+  options?: SendMessageOptions;
+}
+
+export type FailureType = 'invalid_number' | 'not_on_whatsapp' | 'rate_limited' | 'network' | 'auth' | 'unknown';
+
+export interface RetryPolicy {
+  /** Total send attempts before a message is dead-lettered */
+  maxAttempts?: number;
+  /** Delays in ms before the 2nd, 3rd, ... attempt; the last entry repeats */
+  backoffSchedule?: number[];
+  /** Failure types worth retrying (default: network, rate_limited, unknown) */
+  retryableErrors?: FailureType[];
+}
+
+export interface FailedAttempt {
+  attempt: number;
+  error: string;
+  errorType: FailureType;
+  failedAt: number;
+}
+
+export interface DeadLetterMessage {
+  id: string;
+  number: string;
+  message: string;
+  media?: QueuedMedia;
+  options: SendMessageOptions;
+  priority?: MessagePriority;
+  status: 'dead_letter';
+  error: string;
+  errorType: FailureType;
+  /** 'non_retryable' for permanent errors, 'max_attempts' when retries ran out */
+  reason: 'non_retryable' | 'max_attempts';
+  attempts: number;
+  errorHistory?: FailedAttempt[];
+  failedAt: number;
+  deadLetteredAt: number;
+}
+
+export interface FailedMessageFilter {
+  number?: string;
+  /** Only messages whose error contains this text */
+  error?: string;
+  errorType?: FailureType;
+  failedAfter?: number;
+  failedBefore?: number;
+  limit?: number;
+}
+
+export interface RetryFailedResult {
+  retried: number;
+  messageIds: string[];
 }
 
 export interface QueueStatus {
   totalMessages: number;
+  scheduledMessages: number;
+  deadLetterMessages: number;
   pendingMessages: number;
   processingMessages: number;
   sentMessages: number;
@@ -79,13 +504,29 @@ export interface ServerStatus {
 
 export interface MessageStatus {
   id: string;
-  status: 'pending' | 'processing' | 'sent' | 'failed';
+  status: 'scheduled' | 'pending' | 'processing' | 'sent' | 'delivered' | 'read' | 'failed' | 'dead_letter' | 'cancelled';
   timestamp: number;
   error?: string;
+  errorType?: FailureType;
+  nextAttemptAt?: number;
+  sendAt?: number;
   sentAt?: number;
+  deliveredAt?: number;
+  readAt?: number;
   position?: number;
 }
 
+export type ReceiptStatus = 'delivered' | 'read';
+
+export interface MessageReceipt {
+  /** WhatsApp message ID (the direct-send messageId, or whatsappMessageId on queue records) */
+  messageId: string;
+  chatId: string;
+  status: ReceiptStatus;
+  timestamp: number;
+  recipient?: string;
+}
+
 export interface HealthCheckResult {
   isHealthy: boolean;
   responseTime: number;
@@ -100,7 +541,91 @@ export interface ApiResponse<T = any> {
   timestamp?: number;
 }
 
+export interface QueueListOptions {
+  orderBy?: string;
+  /** Upper bound (inclusive) on the orderBy field */
+  endAt?: number;
+  limitToFirst?: number;
+  limitToLast?: number;
+}
+
+export interface QueueTransactionResult {
+  committed: boolean;
+  value: any;
+}
+
+/**
+ * Storage backend for the message queue. Paths are relative to the queue root
+ * (e.g. 'pending/{id}', 'server_status/heartbeat'); writing null removes a path.
+ */
+export interface QueueStore {
+  read(path: string): Promise<any>;
+  list(path: string, options?: QueueListOptions): Promise<Record<string, any>>;
+  write(path: string, value: any): Promise<void>;
+  update(updates: Record<string, any>): Promise<void>;
+  transaction(path: string, updateFn: (current: any) => any): Promise<QueueTransactionResult>;
+  /** Listen for value changes at a path; returns an unsubscribe function */
+  subscribe?(path: string, callback: (value: any) => void): () => void;
+  close?(): Promise<void>;
+}
+
+export type QueueStoreType = 'firebase' | 'memory' | 'file';
+
+export interface QueueWorkerConfig {
+  pollInterval?: number;
+  batchSize?: number;
+  heartbeatInterval?: number;
+  maxAttempts?: number;
+  retryPolicy?: RetryPolicy;
+  messageDelay?: number;
+  /** Must match the SDK's priorityAgingInterval so estimates follow the worker's order */
+  priorityAgingInterval?: number;
+  /** Calling code for queued numbers in national format */
+  defaultCountryCode?: string;
+  debug?: boolean;
+}
+
+export interface QueueWorkerStats {
+  isRunning: boolean;
+  workerId: string;
+  processed: number;
+  sent: number;
+  failed: number;
+  requeued: number;
+  promoted: number;
+  startedAt?: number;
+  lastProcessed?: number;
+}
+
+export interface BulkMessage {
+  number: string;
+  /** Text or content to send; optional when media is set */
+  message?: string | MessageContent;
+  media?: MediaMessage;
+  options?: SendMessageOptions;
+}
+
+export interface BulkSendProgress {
+  /** Position of the message in the input array */
+  index: number;
+  number: string;
+  result: SendMessageResult;
+  completed: number;
+  total: number;
+}
+
+export interface BulkSendOptions {
+  /** Messages in flight at once (default: 1) */
+  concurrency?: number;
+  /** Stop starting new sends after the first failure (default: false) */
+  stopOnError?: boolean;
+  /** 'smart' routes each message like sendMessage, 'queue' queues them all (default: 'smart') */
+  routing?: 'smart' | 'queue';
+  onProgress?: (progress: BulkSendProgress) => void;
+}
+
 export interface BulkSendResult {
+  /** One result per attempted message, in input order; failures have success false and an error */
   results: SendMessageResult[];
   totalSent: number;
   totalFailed: number;
@@ -109,6 +634,8 @@ export interface BulkSendResult {
     failed: number;
     direct: number;
     queued: number;
+    /** Messages not attempted because stopOnError was set */
+    skipped: number;
   };
 }
 
@@ -120,6 +647,189 @@ export interface QueueMetrics {
   currentLoad: number;
 }
 
+// Incoming message types
+export interface IncomingMedia {
+  type: MediaType;
+  mimetype?: string;
+  caption?: string;
+  filename?: string;
+  fileLength?: number;
+  seconds?: number;
+}
+
+export interface QuotedMessage {
+  id: string;
+  participant?: string;
+  text?: string;
+}
+
+export interface IncomingMessage {
+  id: string;
+  chatId: string;
+  sender: string;
+  senderJid: string;
+  pushName?: string;
+  isGroup: boolean;
+  fromMe: boolean;
+  type: string;
+  text?: string;
+  media?: IncomingMedia;
+  quoted?: QuotedMessage;
+  timestamp: number;
+  /** Original Baileys message, e.g. for downloadMediaMessage; never persisted */
+  raw?: any;
+}
+
+export type HistoryMessage = Omit<IncomingMessage, 'raw'>;
+
+export interface MessageHistoryQuery {
+  limit?: number;
+  /**
+   * Only return messages before this point: the previous page's nextCursor,
+   * or a timestamp for messages strictly older than it
+   */
+  before?: string | number;
+}
+
+export interface MessageHistoryPage {
+  chatId: string;
+  messages: HistoryMessage[];
+  hasMore: boolean;
+  /** "{timestamp}:{messageId}" of the oldest message on this page */
+  nextCursor?: string;
+}
+
+// Event types
+export interface DisconnectInfo {
+  reason?: string;
+  statusCode?: number;
+  willReconnect: boolean;
+}
+
+export interface MessageFailedEvent {
+  number: string;
+  error: string;
+  messageId?: string;
+  method?: 'direct' | 'queued';
+  errorType?: FailureType;
+}
+
+export interface RoutingDecision {
+  number: string;
+  route: 'direct' | 'queue';
+  reason: string;
+  timestamp: number;
+}
+
+export interface HealthChangeEvent {
+  isHealthy: boolean;
+  previous: boolean | null;
+  timestamp: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  /** Failed share of the calls in the window, 0 to 1 */
+  failureRate: number;
+  calls: number;
+  failures: number;
+  openedAt: number | null;
+  /** When an open circuit lets a trial call through */
+  nextAttemptAt: number | null;
+  lastFailure?: string;
+  lastStateChange: number;
+}
+
+export interface CircuitChangeEvent {
+  state: CircuitState;
+  previous: CircuitState;
+  reason: string;
+  timestamp: number;
+}
+
+export interface CircuitBreakerEvents {
+  'circuit:changed': (event: CircuitChangeEvent) => void;
+}
+
+export interface WhatsAppConnectionEvents {
+  qr: (qr: string) => void;
+  connected: (userInfo: any) => void;
+  disconnected: (info: DisconnectInfo) => void;
+  loggedOut: () => void;
+  message: (message: IncomingMessage) => void;
+  receipt: (receipt: MessageReceipt) => void;
+}
+
+export interface HealthCheckerEvents {
+  'health:changed': (event: HealthChangeEvent) => void;
+}
+
+export interface QueueWorkerEvents {
+  'message:sent': (result: SendMessageResult) => void;
+  'message:failed': (event: MessageFailedEvent) => void;
+}
+
+export interface WhapleEvents extends WhatsAppConnectionEvents {
+  'message:queued': (result: SendMessageResult) => void;
+  'message:sent': (result: SendMessageResult) => void;
+  'message:failed': (event: MessageFailedEvent) => void;
+  'message:receipt': (receipt: MessageReceipt) => void;
+  'routing:decision': (decision: RoutingDecision) => void;
+  'health:changed': (event: HealthChangeEvent) => void;
+  'circuit:changed': (event: CircuitChangeEvent) => void;
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  /** E.164 number of the connected account, once known */
+  number?: string;
+  /** Connection status, or null in API mode */
+  status: WhatsAppConnectionStatus | null;
+  /** QR code waiting to be scanned, if any */
+  qr: string | null;
+  createdAt: number;
+}
+
+export type SenderPoolStrategy = 'round-robin' | 'least-loaded' | 'sticky';
+
+export interface SenderPoolConfig {
+  /** How sends without sessionId or from pick a session (default: 'round-robin') */
+  strategy?: SenderPoolStrategy;
+  /** Consecutive send failures before a session leaves the pool (default: 3) */
+  maxConsecutiveFailures?: number;
+  /** Milliseconds a failing session stays out of the pool (default: 5 minutes) */
+  failureCooldown?: number;
+}
+
+export interface SenderPoolSessionStats {
+  sessionId: string;
+  /** Connected and neither logged out nor cooling down */
+  available: boolean;
+  loggedOut: boolean;
+  inFlight: number;
+  sent: number;
+  failed: number;
+  consecutiveFailures: number;
+  /** End of the current cooldown, or null */
+  cooldownUntil: number | null;
+}
+
+export type SessionUnavailableReason = 'logged_out' | 'send_failures';
+
+export interface SessionManagerEvents {
+  'session:created': (event: { sessionId: string }) => void;
+  'session:removed': (event: { sessionId: string }) => void;
+  'session:qr': (event: { sessionId: string; qr: string }) => void;
+  'session:connected': (event: { sessionId: string; userInfo: any }) => void;
+  'session:disconnected': (event: { sessionId: string; info: DisconnectInfo }) => void;
+  'session:loggedOut': (event: { sessionId: string }) => void;
+  'session:message': (event: { sessionId: string; message: IncomingMessage }) => void;
+  'session:unavailable': (event: { sessionId: string; reason: SessionUnavailableReason }) => void;
+  'session:failover': (event: { fromSessionId: string; toSessionId: string; moved: number }) => void;
+}
+
 // Error types
 export class WhapleError extends Error {
   public code: string;
@@ -147,9 +857,19 @@ export class ConnectionError extends WhapleError {
   }
 }
 
+export class NotOnWhatsAppError extends WhapleError {
+  public number: string;
+
+  constructor(number: string) {
+    super(`Number ${number} is not on WhatsApp`, 'NOT_ON_WHATSAPP');
+    this.name = 'NotOnWhatsAppError';
+    this.number = number;
+  }
+}
+
 export class ValidationError extends WhapleError {
-  constructor(message: string) {
-    super(message, 'VALIDATION_ERROR');
+  constructor(message: string, code: string = 'VALIDATION_ERROR') {
+    super(message, code);
     this.name = 'ValidationError';
   }
 }
@@ -159,9 +879,18 @@ export interface WhatsAppConnectionConfig {
   printQRInTerminal?: boolean;
   useFirebaseAuth?: boolean;
   authPath?: string;
+  firebaseAuthPath?: string;
+  authStore?: AuthStateStore;
   firebaseApp?: any;
 }
 
+export interface AuthStateStore {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
 export interface WhatsAppConnectionStatus {
   isConnected: boolean;
   isAuthenticated: boolean;
@@ -0,0 +1,57 @@
+import { CircuitBreaker } from '../src/CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open once the failure rate crosses the threshold', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 0.5, minimumCalls: 4, openDuration: 10000 });
+    const onChange = jest.fn();
+    breaker.on('circuit:changed', onChange);
+
+    breaker.recordSuccess();
+    breaker.recordFailure('HTTP 502');
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure('HTTP 502');
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(onChange).toHaveBeenCalledWith(expect.objectContaining({ state: 'open', previous: 'closed', reason: 'failure_rate' }));
+    expect(breaker.getStatus()).toMatchObject({ failureRate: 0.5, calls: 4, failures: 2, lastFailure: 'HTTP 502' });
+  });
+
+  it('should let one trial through after openDuration and close on success', () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 1, openDuration: 10000 });
+    breaker.recordFailure('timeout');
+
+    jest.advanceTimersByTime(10000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', calls: 0, openedAt: null });
+  });
+
+  it('should reopen when the trial fails and follow health results', () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 1, openDuration: 10000 });
+    breaker.recordFailure('timeout');
+    jest.advanceTimersByTime(10000);
+    breaker.tryAcquire();
+
+    breaker.recordFailure('timeout');
+    expect(breaker.getStatus().nextAttemptAt).toBe(Date.now() + 10000);
+
+    breaker.recordHealth(true);
+    expect(breaker.getState()).toBe('half-open');
+    breaker.recordHealth(false);
+    expect(breaker.getState()).toBe('open');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { useAuthStateStore } from '../src/FirebaseAuthState';
+import { AuthStateStore } from '../src/types';
+
+class MemoryStore implements AuthStateStore {
+  data = new Map<string, string>();
+
+  async read(key: string) { return this.data.get(key) || null; }
+  async write(key: string, value: string) { this.data.set(key, value); }
+  async remove(key: string) { this.data.delete(key); }
+  async clear() { this.data.clear(); }
+}
+
+describe('useAuthStateStore', () => {
+  it('should initialize fresh credentials when the store is empty', async () => {
+    const store = new MemoryStore();
+    const { state, saveCreds } = await useAuthStateStore(store);
+
+    expect(state.creds.noiseKey.private).toBeInstanceOf(Buffer);
+
+    await saveCreds();
+    expect(store.data.has('creds')).toBe(true);
+  });
+
+  it('should restore credentials with Buffers intact', async () => {
+    const store = new MemoryStore();
+    const first = await useAuthStateStore(store);
+    await first.saveCreds();
+
+    const second = await useAuthStateStore(store);
+    expect(Buffer.from(second.state.creds.noiseKey.private))
+      .toEqual(Buffer.from(first.state.creds.noiseKey.private));
+  });
+
+  it('should fail instead of starting a fresh session when reading credentials fails', async () => {
+    const store = new MemoryStore();
+    const first = await useAuthStateStore(store);
+    await first.saveCreds();
+    const saved = store.data.get('creds');
+
+    jest.spyOn(store, 'read').mockRejectedValueOnce(new Error('Client is offline'));
+    await expect(useAuthStateStore(store)).rejects.toThrow('Client is offline');
+    expect(store.data.get('creds')).toBe(saved);
+  });
+
+  it('should set, get and remove signal keys', async () => {
+    const store = new MemoryStore();
+    const { state } = await useAuthStateStore(store);
+    const session = Buffer.from([1, 2, 3]);
+
+    await state.keys.set({ session: { '123.0': session } });
+    const loaded = await state.keys.get('session', ['123.0']);
+    expect(Buffer.from(loaded['123.0'])).toEqual(session);
+
+    await state.keys.set({ session: { '123.0': null } });
+    expect(store.data.has('keys/session/123.0')).toBe(false);
+  });
+
+  it('should clear the store', async () => {
+    const store = new MemoryStore();
+    const { saveCreds, clearState } = await useAuthStateStore(store);
+    await saveCreds();
+
+    await clearState();
+    expect(store.data.size).toBe(0);
+  });
+});
\ No newline at end of file
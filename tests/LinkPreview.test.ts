@@ -0,0 +1,25 @@
+import { findFirstUrl, parseLinkPreview } from '../src/LinkPreview';
+
+describe('LinkPreview', () => {
+  it('should find the first URL without trailing punctuation', () => {
+    expect(findFirstUrl('Track it at https://example.com/orders/42. Thanks!')).toBe('https://example.com/orders/42');
+    expect(findFirstUrl('No links here')).toBeNull();
+  });
+
+  it('should prefer Open Graph tags and fall back to the page title', () => {
+    const html = `<html><head>
+      <title>Fallback</title>
+      <meta property="og:title" content="Order #42 &amp; more">
+      <meta name='description' content='Arrives Tuesday'>
+    </head></html>`;
+
+    expect(parseLinkPreview(html, 'https://example.com/orders/42')).toEqual({
+      url: 'https://example.com/orders/42',
+      matchedText: 'https://example.com/orders/42',
+      title: 'Order #42 & more',
+      description: 'Arrives Tuesday'
+    });
+    expect(parseLinkPreview('<title>Only a title</title>', 'https://example.com')?.title).toBe('Only a title');
+    expect(parseLinkPreview('<p>No title</p>', 'https://example.com')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import {
+  buttonsMessage,
+  contactMessage,
+  describeMessageContent,
+  listMessage,
+  locationMessage,
+  pollMessage,
+  reactionMessage,
+  renderMenuText,
+  replyMessage,
+  validateMessageContent
+} from '../src/MessageContent';
+import { buildVCard } from '../src/VCard';
+import { HistoryMessage, ValidationError } from '../src/types';
+
+describe('MessageContent', () => {
+  const incoming: HistoryMessage = {
+    id: 'ABC123',
+    chatId: '120363025246125486@g.us',
+    sender: '+14155552671',
+    senderJid: '14155552671@s.whatsapp.net',
+    isGroup: true,
+    fromMe: false,
+    type: 'conversation',
+    text: 'Is my order on its way?',
+    timestamp: 1700000000000
+  };
+
+  it('should reference inbound group messages for replies and reactions', () => {
+    const reply = replyMessage(incoming, 'Yes, it ships today');
+    const reaction = reactionMessage(incoming, '👍');
+
+    expect(reply.quoted).toEqual({
+      id: 'ABC123',
+      chatId: '120363025246125486@g.us',
+      fromMe: false,
+      participant: '14155552671@s.whatsapp.net',
+      text: 'Is my order on its way?'
+    });
+    expect(reaction.message.participant).toBe('14155552671@s.whatsapp.net');
+    expect(describeMessageContent(reaction)).toBe('Reacted 👍');
+  });
+
+  it('should validate polls', () => {
+    expect(() => validateMessageContent(pollMessage('Rate us', ['Good', 'Bad']))).not.toThrow();
+    expect(() => validateMessageContent(pollMessage('Rate us', ['Good']))).toThrow(ValidationError);
+    expect(() => validateMessageContent(pollMessage('Rate us', ['Good', 'Good']))).toThrow('distinct');
+    expect(() => validateMessageContent(pollMessage('Rate us', ['Good', 'Bad'], 3))).toThrow('selectableCount');
+  });
+
+  it('should validate buttons and list rows', () => {
+    const buttons = [1, 2, 3, 4].map(n => ({ id: `b${n}`, text: `Option ${n}` }));
+
+    expect(() => validateMessageContent(buttonsMessage('Pick one', buttons))).toThrow('1 to 3 buttons');
+    expect(() => validateMessageContent(listMessage('Menu', 'Open', [{ title: 'Empty', rows: [] }])))
+      .toThrow('at least one row');
+    expect(() => validateMessageContent({ type: 'carousel' } as any)).toThrow('content type must be one of');
+  });
+
+  it('should render menus as numbered text', () => {
+    const menu = listMessage('How can we help?', 'Open menu', [
+      { title: 'Orders', rows: [{ id: 'track', title: 'Track order' }, { id: 'return', title: 'Return', description: 'within 30 days' }] }
+    ], { footer: 'Reply with a number' });
+
+    expect(renderMenuText(menu)).toBe(
+      'How can we help?\n\n*Orders*\n1. Track order\n2. Return - within 30 days\n\n_Reply with a number_'
+    );
+  });
+
+  it('should validate location coordinates', () => {
+    const office = locationMessage({ lat: -33.9249, lng: 18.4241, name: 'Cape Town office' });
+
+    expect(() => validateMessageContent(office)).not.toThrow();
+    expect(describeMessageContent(office)).toBe('Location: Cape Town office');
+    expect(() => validateMessageContent(locationMessage({ lat: 91, lng: 0 }))).toThrow('Latitude');
+    expect(() => validateMessageContent(locationMessage({ lat: 0, lng: NaN }))).toThrow('Longitude');
+  });
+
+  it('should build escaped vCards linked to WhatsApp numbers', () => {
+    const vcard = buildVCard({
+      fullName: 'Jane Doe, Support',
+      organization: 'Acme; Inc',
+      phones: ['082 123 4567', { number: '+14155552671', type: 'work' }],
+      emails: ['jane@example.com']
+    }, '27');
+
+    expect(vcard.split('\n')).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Jane Doe\\, Support',
+      'ORG:Acme\\; Inc',
+      'TEL;type=CELL;waid=27821234567:+27821234567',
+      'TEL;type=WORK;waid=14155552671:+14155552671',
+      'EMAIL;type=INTERNET:jane@example.com',
+      'END:VCARD'
+    ]);
+    expect(contactMessage(vcard).displayName).toBe('Jane Doe, Support');
+  });
+
+  it('should reject invalid contact cards', () => {
+    expect(() => buildVCard({ fullName: 'Jane', phones: [] })).toThrow('at least one phone');
+    expect(() => buildVCard({ fullName: '', phones: ['+14155552671'] })).toThrow('fullName');
+    expect(() => buildVCard({ fullName: 'Jane', phones: ['+14155552671'], emails: ['jane'] }))
+      .toThrow('Invalid contact email');
+    expect(() => contactMessage('BEGIN:VCARD\nVERSION:3.0\nEND:VCARD')).toThrow('FN');
+  });
+});
\ No newline at end of file
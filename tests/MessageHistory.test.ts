@@ -0,0 +1,76 @@
+import { MessageHistory } from '../src/MessageHistory';
+import { MemoryQueueStore } from '../src/MemoryQueueStore';
+import { HistoryMessage } from '../src/types';
+
+describe('MessageHistory', () => {
+  const chatId = '1234567890@s.whatsapp.net';
+  const message = (id: string, timestamp: number, fromMe = false): HistoryMessage => ({
+    id,
+    chatId,
+    sender: fromMe ? '+1987654321' : '+1234567890',
+    senderJid: fromMe ? '1987654321@s.whatsapp.net' : chatId,
+    isGroup: false,
+    fromMe,
+    type: 'conversation',
+    text: `message ${id}`,
+    timestamp
+  });
+
+  let store: MemoryQueueStore;
+  let history: MessageHistory;
+
+  beforeEach(() => {
+    store = new MemoryQueueStore();
+    history = new MessageHistory(store);
+  });
+
+  it('should return the latest messages oldest first', async () => {
+    await history.record([message('a', 1000), message('b', 2000, true), message('c', 3000)]);
+
+    const page = await history.getHistory(chatId, { limit: 2 });
+    expect(page.messages.map(m => m.id)).toEqual(['b', 'c']);
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toBe('2000:b');
+  });
+
+  it('should page back with the before cursor', async () => {
+    await history.record([message('a', 1000), message('b', 2000), message('c', 3000)]);
+
+    const first = await history.getHistory(chatId, { limit: 2 });
+    const second = await history.getHistory(chatId, { limit: 2, before: first.nextCursor });
+
+    expect(second.messages.map(m => m.id)).toEqual(['a']);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should not skip messages that share the timestamp at a page boundary', async () => {
+    await history.record([message('a', 1000), message('b', 1000), message('c', 1000), message('d', 2000)]);
+
+    const first = await history.getHistory(chatId, { limit: 2 });
+    const second = await history.getHistory(chatId, { limit: 2, before: first.nextCursor });
+
+    expect(first.messages.map(m => m.id)).toEqual(['c', 'd']);
+    expect(first.nextCursor).toBe('1000:c');
+    expect(second.messages.map(m => m.id)).toEqual(['a', 'b']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('should treat a plain timestamp cursor as exclusive', async () => {
+    await history.record([message('a', 1000), message('b', 2000), message('c', 2000)]);
+
+    const page = await history.getHistory(chatId, { before: 2000 });
+    expect(page.messages.map(m => m.id)).toEqual(['a']);
+  });
+
+  it('should keep chats separate and overwrite duplicates', async () => {
+    await history.record([message('a', 1000)]);
+    await history.record([{ ...message('a', 1000), text: 'edited' }]);
+    await history.record([{ ...message('x', 1500), chatId: 'other@s.whatsapp.net' }]);
+
+    const page = await history.getHistory(chatId);
+    expect(page.messages).toHaveLength(1);
+    expect(page.messages[0].text).toBe('edited');
+    expect(await store.read('history/1234567890%40s%2Ewhatsapp%2Enet/a')).not.toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,280 @@
+import { QueueManager } from '../src/QueueManager';
+import { MemoryQueueStore } from '../src/MemoryQueueStore';
+import { QueueWorker } from '../src/QueueWorker';
+
+describe('QueueManager', () => {
+  const messageData = (number: string) => ({
+    number,
+    message: 'Hello',
+    options: {},
+    source: 'sdk',
+    version: '1.0.0',
+    timestamp: Date.now(),
+    priority: 'medium' as const
+  });
+
+  let store: MemoryQueueStore;
+  let queueManager: QueueManager;
+
+  beforeEach(() => {
+    store = new MemoryQueueStore();
+    queueManager = new QueueManager(store, { debug: false });
+  });
+
+  it('should add messages to the pending queue', async () => {
+    const result = await queueManager.addMessage(messageData('+1234567890'));
+
+    expect(result.success).toBe(true);
+    expect(result.method).toBe('queued');
+    expect(await store.read(`pending/${result.messageId}`)).toMatchObject({
+      number: '+1234567890',
+      status: 'pending'
+    });
+  });
+
+  it('should report queue status from the store', async () => {
+    await queueManager.addMessage(messageData('+1234567890'));
+    await queueManager.addMessage(messageData('+1234567891'));
+
+    const status = await queueManager.getQueueStatus();
+    expect(status.pendingMessages).toBe(2);
+    expect(status.processingMessages).toBe(0);
+  });
+
+  it('should find messages across queue states', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+    expect((await queueManager.getMessageStatus(messageId)).status).toBe('pending');
+
+    const record = await store.read(`pending/${messageId}`);
+    await store.update({
+      [`pending/${messageId}`]: null,
+      [`completed/${messageId}`]: { ...record, completedAt: 1000 }
+    });
+
+    const status = await queueManager.getMessageStatus(messageId);
+    expect(status.status).toBe('sent');
+    expect(status.sentAt).toBe(1000);
+    expect(await store.list('pending')).toEqual({});
+  });
+
+  it('should report status transitions to watchers', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+    const statuses: string[] = [];
+    const unsubscribe = queueManager.watchMessage(messageId, (status) => statuses.push(status.status));
+
+    const record = await store.read(`pending/${messageId}`);
+    await store.update({ [`pending/${messageId}`]: null, [`processing/${messageId}`]: { ...record, startedAt: 1 } });
+    await store.update({ [`processing/${messageId}`]: null, [`completed/${messageId}`]: { ...record, completedAt: 2 } });
+    unsubscribe();
+
+    expect(statuses).toEqual(['pending', 'processing', 'sent']);
+  });
+
+  it('should resolve waitForDelivery when the message is sent', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+    const delivery = queueManager.waitForDelivery(messageId, 1000);
+
+    const record = await store.read(`pending/${messageId}`);
+    await store.update({ [`pending/${messageId}`]: null, [`completed/${messageId}`]: { ...record, completedAt: 5 } });
+
+    await expect(delivery).resolves.toMatchObject({ status: 'sent', sentAt: 5 });
+  });
+
+  it('should reject waitForDelivery when the message fails', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+    const delivery = queueManager.waitForDelivery(messageId, 1000);
+
+    await store.update({ [`pending/${messageId}`]: null, [`failed/${messageId}`]: { failedAt: 5, error: 'boom' } });
+
+    await expect(delivery).rejects.toThrow('boom');
+  });
+
+  it('should report delivered and read receipts on completed messages', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+    await store.update({
+      [`pending/${messageId}`]: null,
+      [`completed/${messageId}`]: { completedAt: 1, whatsappMessageId: 'WA1' },
+      ['receipts/WA1/queueMessageId']: messageId
+    });
+
+    await queueManager.recordReceipt({ messageId: 'WA1', chatId: 'c', status: 'delivered', timestamp: 2 });
+    expect(await queueManager.getMessageStatus(messageId)).toMatchObject({ status: 'delivered', deliveredAt: 2 });
+
+    await queueManager.recordReceipt({ messageId: 'WA1', chatId: 'c', status: 'read', timestamp: 3 });
+    await queueManager.recordReceipt({ messageId: 'WA1', chatId: 'c', status: 'delivered', timestamp: 4 });
+    expect(await queueManager.getMessageStatus(messageId)).toMatchObject({ status: 'read', deliveredAt: 2, readAt: 3 });
+  });
+
+  it('should order pending messages by priority, then FIFO', async () => {
+    const now = Date.now();
+    await store.update({
+      'pending/low': { priority: 'low', queuedAt: now - 400 },
+      'pending/medium-first': { priority: 'medium', queuedAt: now - 300 },
+      'pending/high': { priority: 'high', queuedAt: now - 200 },
+      'pending/medium-second': { priority: 'medium', queuedAt: now - 100 }
+    });
+
+    expect(await queueManager.getQueuePosition('high')).toBe(0);
+    expect(await queueManager.getQueuePosition('medium-first')).toBe(1);
+    expect(await queueManager.getQueuePosition('medium-second')).toBe(2);
+    expect(await queueManager.getProcessingEstimate('low')).toMatchObject({
+      found: true,
+      position: 4,
+      messagesAhead: 3,
+      priority: 'low'
+    });
+  });
+
+  it('should promote low priority messages as they age', async () => {
+    const now = Date.now();
+    await store.update({
+      'pending/old-low': { priority: 'low', queuedAt: now - 5000 },
+      'pending/new-high': { priority: 'high', queuedAt: now - 100 }
+    });
+
+    const aging = new QueueManager(store, { priorityAgingInterval: 2000 });
+    expect(await aging.getQueuePosition('old-low')).toBe(0);
+
+    const noAging = new QueueManager(store, { priorityAgingInterval: 0 });
+    expect(await noAging.getQueuePosition('old-low')).toBe(1);
+  });
+
+  it('should move scheduled messages to pending once due', async () => {
+    const due = await queueManager.scheduleMessage(messageData('+1234567890'), Date.now() - 1000);
+    const later = await queueManager.scheduleMessage(messageData('+1234567891'), Date.now() + 60000);
+
+    expect(await queueManager.getMessageStatus(due.messageId)).toMatchObject({ status: 'scheduled' });
+    expect((await queueManager.getQueueDetails()).summary).toMatchObject({ scheduled: 2, pending: 0 });
+
+    // No sender is configured, so the worker only promotes
+    await new QueueWorker(store, {}).processPending();
+
+    expect(await queueManager.getMessageStatus(due.messageId)).toMatchObject({ status: 'pending', position: 0 });
+    expect(await queueManager.getMessageStatus(later.messageId)).toMatchObject({ status: 'scheduled' });
+    expect(await queueManager.getQueueStatus()).toMatchObject({ scheduledMessages: 1, pendingMessages: 1 });
+  });
+
+  it('should not reschedule a message that is no longer scheduled', async () => {
+    await expect(queueManager.rescheduleMessage('missing', Date.now()))
+      .rejects.toMatchObject({ code: 'MESSAGE_NOT_SCHEDULED' });
+  });
+
+  it('should cancel pending messages but not ones being processed', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+
+    const cancelled = await queueManager.cancelMessage(messageId);
+    expect(cancelled).toMatchObject({ status: 'cancelled', previousStatus: 'pending' });
+    expect(await store.read(`pending/${messageId}`)).toBeNull();
+    expect(await queueManager.getMessageStatus(messageId)).toMatchObject({ status: 'cancelled' });
+
+    await store.write('processing/busy', { number: '+1', startedAt: 1 });
+    await expect(queueManager.cancelMessage('busy')).rejects.toMatchObject({ code: 'MESSAGE_PROCESSING' });
+    await expect(queueManager.cancelMessage('missing')).rejects.toMatchObject({ code: 'MESSAGE_NOT_QUEUED' });
+  });
+
+  it('should treat messages claimed by a worker as being processed', async () => {
+    await store.update({
+      'pending/claimed': { number: '+1', message: 'Hi', claimedBy: 'worker-1', claimedAt: Date.now() },
+      'pending/stale': { number: '+2', message: 'Hi', claimedBy: 'worker-1', claimedAt: Date.now() - 10 * 60 * 1000 }
+    });
+
+    await expect(queueManager.cancelMessage('claimed')).rejects.toMatchObject({ code: 'MESSAGE_PROCESSING' });
+    await expect(queueManager.updateQueuedMessage('claimed', { message: 'Changed' }))
+      .rejects.toMatchObject({ code: 'MESSAGE_PROCESSING' });
+    expect(await store.read('pending/claimed')).toMatchObject({ message: 'Hi', claimedBy: 'worker-1' });
+
+    const taken = await queueManager.takePendingMessages();
+    expect(taken.map(m => m.id)).toEqual(['stale']);
+    expect(taken[0]).not.toHaveProperty('claimedBy');
+    expect(await store.read('pending/claimed')).not.toBeNull();
+  });
+
+  it('should keep a dead-lettered message when moving it back to pending fails', async () => {
+    await store.write('dead_letter/a', { number: '+1', message: 'Hi', error: 'timeout', failedAt: 1 });
+    jest.spyOn(store, 'update').mockRejectedValueOnce(new Error('store unavailable'));
+
+    await expect(queueManager.requeueDeadLetter('a')).rejects.toThrow('store unavailable');
+    expect(await store.read('dead_letter/a')).toEqual({ number: '+1', message: 'Hi', error: 'timeout', failedAt: 1 });
+    expect(await store.read('pending/a')).toBeNull();
+
+    await queueManager.requeueDeadLetter('a');
+    expect(await store.read('dead_letter/a')).toBeNull();
+    expect(await store.read('pending/a')).toMatchObject({ status: 'pending', lastError: 'timeout' });
+  });
+
+  it('should update queued messages in place', async () => {
+    const { messageId } = await queueManager.addMessage(messageData('+1234567890'));
+
+    const updated = await queueManager.updateQueuedMessage(messageId, {
+      message: 'Updated',
+      priority: 'high',
+      options: { source: 'edit' }
+    });
+
+    expect(updated).toMatchObject({ message: 'Updated', priority: 'high', number: '+1234567890' });
+    expect((await store.read(`pending/${messageId}`)).options).toEqual({ source: 'edit' });
+  });
+
+  it('should change the text that is sent when updating queued content', async () => {
+    await store.update({
+      'pending/text': { number: '+1', message: 'Old', content: { type: 'text', text: 'Old', linkPreview: true } },
+      'pending/media': { number: '+1', message: 'Old', media: { mediaType: 'image', caption: 'Old' } },
+      'pending/poll': { number: '+1', message: 'Poll', content: { type: 'poll', name: 'Poll', options: ['a', 'b'] } }
+    });
+
+    await queueManager.updateQueuedMessage('text', { message: 'New https://example.com' });
+    expect((await store.read('pending/text')).content).toEqual({ type: 'text', text: 'New https://example.com', linkPreview: true });
+
+    await queueManager.updateQueuedMessage('media', { message: 'New' });
+    expect((await store.read('pending/media')).media.caption).toBe('New');
+
+    await expect(queueManager.updateQueuedMessage('poll', { message: 'New' }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(await queueManager.updateQueuedMessage('poll', { priority: 'high' })).toMatchObject({ priority: 'high' });
+  });
+
+  it('should retry failed messages individually and by filter', async () => {
+    await store.update({
+      'failed/a': { number: '+1', error: 'timeout', failedAt: 1, attempts: 3 },
+      'failed/b': { number: '+2', error: 'not on WhatsApp', failedAt: 2, attempts: 3 },
+      'failed/c': { number: '+1', error: 'timeout', failedAt: 3, attempts: 3 }
+    });
+
+    const single = await queueManager.retryFailed('b');
+    expect(single).toMatchObject({ method: 'queued', position: 0 });
+    expect(await store.read('pending/b')).toMatchObject({ status: 'pending', attempts: 0, lastError: 'not on WhatsApp' });
+    await expect(queueManager.retryFailed('b')).rejects.toMatchObject({ code: 'MESSAGE_NOT_FAILED' });
+
+    const bulk = await queueManager.retryAllFailed({ error: 'timeout', failedAfter: 2 });
+    expect(bulk).toEqual({ retried: 1, messageIds: ['c'] });
+    expect(await store.read('failed/a')).not.toBeNull();
+  });
+
+  it('should list, export and requeue dead-lettered messages', async () => {
+    await store.update({
+      'dead_letter/a': { number: '+1', message: 'Hi, "there"', error: 'Not on WhatsApp', errorType: 'not_on_whatsapp', reason: 'non_retryable', attempts: 1, failedAt: 1, deadLetteredAt: 1 },
+      'dead_letter/b': { number: '+2', message: 'Hello', error: 'HTTP 429', errorType: 'rate_limited', reason: 'max_attempts', attempts: 3, failedAt: 2, deadLetteredAt: 2 }
+    });
+
+    expect((await queueManager.listDeadLetters({ errorType: 'rate_limited' })).map(m => m.id)).toEqual(['b']);
+    expect((await queueManager.getQueueStatus()).deadLetterMessages).toBe(2);
+    expect(await queueManager.getMessageStatus('a')).toMatchObject({ status: 'dead_letter', errorType: 'not_on_whatsapp' });
+
+    const csv = (await queueManager.exportDeadLetters({}, 'csv')).split('\n');
+    expect(csv[0]).toBe('id,number,message,errorType,reason,error,attempts,failedAt,deadLetteredAt');
+    expect(csv[1]).toBe('a,+1,"Hi, ""there""",not_on_whatsapp,non_retryable,Not on WhatsApp,1,1,1');
+
+    expect(await queueManager.requeueDeadLetters({ number: '+2' })).toEqual({ retried: 1, messageIds: ['b'] });
+    expect(await store.read('pending/b')).toMatchObject({ attempts: 0, lastErrorType: 'rate_limited' });
+    await expect(queueManager.requeueDeadLetter('b')).rejects.toMatchObject({ code: 'MESSAGE_NOT_DEAD_LETTERED' });
+  });
+
+  it('should return queue details with summary counts', async () => {
+    await queueManager.addMessage(messageData('+1234567890'));
+
+    const details = await queueManager.getQueueDetails();
+    expect(details.success).toBe(true);
+    expect(details.summary.pending).toBe(1);
+    expect(details.summary.total).toBe(1);
+  });
+});
\ No newline at end of file
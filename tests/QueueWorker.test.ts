@@ -0,0 +1,173 @@
+import { QueueWorker } from '../src/QueueWorker';
+import { MemoryQueueStore } from '../src/MemoryQueueStore';
+import { classifyFailure } from '../src/FailureClassifier';
+import { RateLimiter } from '../src/RateLimiter';
+
+describe('QueueWorker', () => {
+  let store: MemoryQueueStore;
+  let apiClient: { sendMessage: jest.Mock };
+
+  const createWorker = () => {
+    const worker = new QueueWorker(store, { apiClient: apiClient as any }, {
+      messageDelay: 0,
+      retryPolicy: { maxAttempts: 2, backoffSchedule: [60000] }
+    });
+    // Process batches without starting the poll and heartbeat timers
+    (worker as any).isRunning = true;
+    return worker;
+  };
+
+  beforeEach(async () => {
+    store = new MemoryQueueStore();
+    apiClient = { sendMessage: jest.fn() };
+    await store.write('pending/msg-1', {
+      number: '+14155552671',
+      message: 'Hello',
+      options: {},
+      priority: 'medium',
+      queuedAt: Date.now(),
+      attempts: 0
+    });
+  });
+
+  it('should classify common send failures', () => {
+    expect(classifyFailure(new Error('Request timeout after 10000ms'))).toBe('network');
+    expect(classifyFailure(Object.assign(new Error('API request failed: Slow down'), { statusCode: 429 }))).toBe('rate_limited');
+    expect(classifyFailure(new Error('API request failed: HTTP 401'))).toBe('auth');
+    expect(classifyFailure(new Error('Number is not registered on WhatsApp'))).toBe('not_on_whatsapp');
+    expect(classifyFailure(new Error('Invalid phone number'))).toBe('invalid_number');
+    expect(classifyFailure(new Error('Something odd'))).toBe('unknown');
+  });
+
+  it('should back off retryable failures and dead-letter them after max attempts', async () => {
+    apiClient.sendMessage.mockRejectedValue(new Error('Network error: ECONNRESET'));
+    const worker = createWorker();
+
+    await worker.processPending();
+    const retry = await store.read('pending/msg-1');
+    expect(retry).toMatchObject({ attempts: 1, lastErrorType: 'network' });
+    expect(retry.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // Not due yet, so nothing is sent
+    await worker.processPending();
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(1);
+
+    await store.update({ 'pending/msg-1/nextAttemptAt': Date.now() - 1 });
+    await worker.processPending();
+
+    expect(await store.read('pending/msg-1')).toBeNull();
+    expect(await store.read('dead_letter/msg-1')).toMatchObject({
+      status: 'dead_letter',
+      errorType: 'network',
+      reason: 'max_attempts',
+      attempts: 2
+    });
+  });
+
+  it('should dead-letter non-retryable failures immediately', async () => {
+    apiClient.sendMessage.mockRejectedValue(new Error('Number is not on WhatsApp'));
+    const failed = jest.fn();
+    const worker = createWorker();
+    worker.on('message:failed', failed);
+
+    await worker.processPending();
+
+    const deadLetter = await store.read('dead_letter/msg-1');
+    expect(deadLetter).toMatchObject({ reason: 'non_retryable', errorType: 'not_on_whatsapp', attempts: 1 });
+    expect(deadLetter.errorHistory).toHaveLength(1);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'msg-1', errorType: 'not_on_whatsapp' }));
+  });
+
+  it('should skip messages claimed by another worker until the claim expires', async () => {
+    apiClient.sendMessage.mockResolvedValue({ messageId: 'wa-1' });
+    const worker = createWorker();
+
+    await store.update({ 'pending/msg-1/claimedBy': 'other-worker', 'pending/msg-1/claimedAt': Date.now() });
+    await worker.processPending();
+    expect(apiClient.sendMessage).not.toHaveBeenCalled();
+
+    // The other worker stopped before moving the message to processing
+    await store.update({ 'pending/msg-1/claimedAt': Date.now() - 10 * 60 * 1000 });
+    await worker.processPending();
+
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(1);
+    expect(await store.read('pending/msg-1')).toBeNull();
+    const completed = await store.read('completed/msg-1');
+    expect(completed).toMatchObject({ status: 'sent' });
+    expect(completed.claimedBy).toBeUndefined();
+  });
+
+  it('should leave the message pending when the move to processing fails', async () => {
+    const worker = createWorker();
+    jest.spyOn(store, 'update').mockRejectedValueOnce(new Error('Write failed'));
+
+    await worker.processPending();
+
+    expect(apiClient.sendMessage).not.toHaveBeenCalled();
+    expect(await store.read('processing/msg-1')).toBeNull();
+    expect(await store.read('pending/msg-1')).toMatchObject({ message: 'Hello' });
+  });
+
+  it('should not requeue a sent message when recording it fails', async () => {
+    apiClient.sendMessage.mockResolvedValue({ messageId: 'wa-1' });
+    const worker = createWorker();
+    const update = store.update.bind(store);
+    jest.spyOn(store, 'update')
+      .mockImplementationOnce(update)
+      .mockRejectedValueOnce(new Error('Write failed'));
+
+    await worker.processPending();
+    await worker.processPending();
+
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(1);
+    expect(await store.read('pending/msg-1')).toBeNull();
+    expect(await store.read('processing/msg-1')).toMatchObject({ status: 'processing' });
+    expect(worker.getStats()).toMatchObject({ sent: 1, requeued: 0 });
+  });
+
+  it('should give the rate limit token back when another worker wins the claim', async () => {
+    apiClient.sendMessage.mockResolvedValue({ messageId: 'wa-1' });
+    const rateLimiter = new RateLimiter({ messagesPerMinute: 1 });
+    const worker = new QueueWorker(store, { apiClient: apiClient as any, rateLimiter }, { messageDelay: 0 });
+    (worker as any).isRunning = true;
+
+    jest.spyOn(store, 'transaction').mockResolvedValueOnce({ committed: false, value: null });
+    await worker.processPending();
+    expect(rateLimiter.getAvailableTokens()).toBe(1);
+
+    await worker.processPending();
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return a failed message to pending when recording the failure fails', async () => {
+    apiClient.sendMessage.mockRejectedValue(new Error('Network error: ECONNRESET'));
+    const worker = createWorker();
+    const update = store.update.bind(store);
+    jest.spyOn(store, 'update')
+      .mockImplementationOnce(update)
+      .mockRejectedValueOnce(new Error('Write failed'));
+
+    await worker.processPending();
+
+    expect(await store.read('processing/msg-1')).toBeNull();
+    expect(await store.read('pending/msg-1')).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Network error: ECONNRESET' });
+  });
+
+  it('should keep a due scheduled message when moving it to pending fails', async () => {
+    apiClient.sendMessage.mockResolvedValue({ messageId: 'wa-1' });
+    await store.write('scheduled/msg-2', { number: '+14155552671', message: 'Later', sendAt: Date.now() - 1000, queuedAt: Date.now() });
+    const worker = createWorker();
+    jest.spyOn(store, 'update').mockRejectedValueOnce(new Error('Write failed'));
+
+    await worker.processPending();
+
+    expect(await store.read('scheduled/msg-2')).toMatchObject({ message: 'Later' });
+    expect(await store.read('pending/msg-2')).toBeNull();
+
+    await store.update({ 'scheduled/msg-2/claimedAt': Date.now() - 10 * 60 * 1000 });
+    await worker.processPending();
+
+    expect(await store.read('scheduled/msg-2')).toBeNull();
+    expect(await store.read('completed/msg-2')).toMatchObject({ message: 'Later', status: 'sent' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { SenderPool } from '../src/SenderPool';
+
+describe('SenderPool', () => {
+  const connected = () => true;
+
+  const poolWith = (config = {}) => {
+    const pool = new SenderPool(config);
+    ['a', 'b', 'c'].forEach(id => pool.add(id));
+    return pool;
+  };
+
+  it('should rotate round-robin over available sessions', () => {
+    const pool = poolWith();
+    const isConnected = (id: string) => id !== 'b';
+
+    const picks = [1, 2, 3, 4].map(() => pool.select('+14155552671', isConnected));
+
+    expect(picks).toEqual(['a', 'c', 'a', 'c']);
+  });
+
+  it('should pick the least-loaded session and keep recipients sticky', () => {
+    const leastLoaded = poolWith({ strategy: 'least-loaded' });
+    leastLoaded.begin('a');
+    leastLoaded.recordSuccess('b');
+
+    expect(leastLoaded.select(undefined, connected)).toBe('c');
+
+    const sticky = poolWith({ strategy: 'sticky' });
+    const first = sticky.select('+14155552671', connected);
+    sticky.recordSuccess(first!);
+
+    expect(sticky.select('+14155550123', connected)).not.toBe(first);
+    expect(sticky.select('+14155552671', connected)).toBe(first);
+    expect(sticky.select('+14155552671', connected, [first!])).not.toBe(first);
+  });
+
+  it('should take sessions out after repeated failures or a logout', () => {
+    const pool = poolWith({ maxConsecutiveFailures: 2, failureCooldown: 60000 });
+
+    expect(pool.recordFailure('a')).toBe(false);
+    expect(pool.recordFailure('a')).toBe(true);
+    expect(pool.markLoggedOut('b')).toBe(true);
+    expect(pool.select(undefined, connected)).toBe('c');
+    expect(pool.getStats(connected).map(s => [s.sessionId, s.available])).toEqual([['a', false], ['b', false], ['c', true]]);
+
+    pool.markConnected('b');
+    expect(pool.isAvailable('b', connected)).toBe(true);
+  });
+
+  it('should fall back to sessions that are not logged out when none can send now', () => {
+    const pool = poolWith();
+    pool.markLoggedOut('a');
+
+    expect(pool.select(undefined, () => false)).toBe('b');
+    expect(pool.select(undefined, () => false, ['b', 'c'])).toBeUndefined();
+  });
+
+  it('should pick the same session for an idempotency key', () => {
+    const pool = poolWith();
+    const picks = [1, 2, 3].map(() => pool.select('+14155552671', connected, [], 'order-42'));
+
+    expect(new Set(picks).size).toBe(1);
+    const next = pool.select('+14155552671', connected, [picks[0]!], 'order-42');
+    expect(next).not.toBe(picks[0]);
+    expect(pool.select('+14155552671', connected, [picks[0]!], 'order-42')).toBe(next);
+  });
+});
\ No newline at end of file
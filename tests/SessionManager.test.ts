@@ -0,0 +1,152 @@
+import { SessionManager } from '../src/SessionManager';
+import { MemoryQueueStore } from '../src/MemoryQueueStore';
+import { ConfigurationError, ValidationError } from '../src/types';
+
+jest.mock('qrcode-terminal', () => ({
+  generate: jest.fn()
+}));
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    manager = new SessionManager({ queueStore: 'memory', enableQueueWorker: false });
+  });
+
+  afterEach(async () => {
+    await manager.cleanup();
+  });
+
+  it('should scope each session\'s queue and auth state by session ID', () => {
+    const sales = manager.createSession('sales') as any;
+
+    expect(sales.getSessionId()).toBe('sales');
+    expect(sales.sessionScoped('message_queue')).toBe('message_queue/sessions/sales');
+    expect(sales.sessionScoped('whaple-queue.json')).toBe('whaple-queue.sales.json');
+    expect(sales.whatsappConnection.config.authPath).toBe('auth_info_baileys/sessions/sales');
+    expect(sales.whatsappConnection.config.firebaseAuthPath).toBe('whatsapp_auth/sessions/sales');
+  });
+
+  it('should queue messages in the session picked by sessionId or from', async () => {
+    const sales = manager.createSession('sales');
+    const support = manager.createSession('support');
+    (support as any).whatsappConnection.userInfo = { id: '14155550123:7@s.whatsapp.net' };
+
+    const bySession = await manager.queueMessage('+14155552671', 'Quote attached', { sessionId: 'sales' });
+    const byNumber = await manager.queueMessage('+14155552671', 'Ticket updated', { from: '+1 415 555 0123' });
+
+    expect(await (sales as any).queueStore.read(`pending/${bySession.messageId}`)).not.toBeNull();
+    expect(await (support as any).queueStore.read(`pending/${byNumber.messageId}`)).not.toBeNull();
+    expect(await (support as any).queueStore.read(`pending/${bySession.messageId}`)).toBeNull();
+    expect(manager.listSessions().map(session => [session.sessionId, session.number]))
+      .toEqual([['sales', undefined], ['support', '+14155550123']]);
+    await expect(manager.queueMessage('+14155552671', 'Which one?')).rejects.toThrow('Pass sessionId or from');
+    await expect(manager.queueMessage('+14155552671', 'Hi', { from: 'billing' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should reject duplicate sessions and shared stores', () => {
+    const store = new MemoryQueueStore();
+    manager.createSession('sales', { queueStore: store });
+
+    expect(() => manager.createSession('sales')).toThrow('already exists');
+    expect(() => manager.createSession('support', { queueStore: store })).toThrow(ConfigurationError);
+    expect(() => manager.createSession('bad id')).toThrow('sessionId may only contain');
+  });
+
+  it('should remove sessions and emit lifecycle events', async () => {
+    const onRemoved = jest.fn();
+    const onQr = jest.fn();
+    manager.on('session:removed', onRemoved);
+    manager.on('session:qr', onQr);
+    const sales = manager.createSession('sales');
+
+    sales.emit('qr', 'QR-DATA');
+
+    expect(onQr).toHaveBeenCalledWith({ sessionId: 'sales', qr: 'QR-DATA' });
+    expect(await manager.removeSession('sales')).toBe(true);
+    expect(await manager.removeSession('sales')).toBe(false);
+    expect(onRemoved).toHaveBeenCalledWith({ sessionId: 'sales' });
+    expect(manager.hasSession('sales')).toBe(false);
+  });
+
+  describe('Sender Pool', () => {
+    let pooled: SessionManager;
+
+    const connect = (client: any) => {
+      Object.assign(client.whatsappConnection, { isConnected: true, isAuthenticated: true });
+    };
+
+    beforeEach(() => {
+      pooled = new SessionManager({ queueStore: 'memory', enableQueueWorker: false }, { strategy: 'round-robin' });
+    });
+
+    afterEach(async () => {
+      await pooled.cleanup();
+    });
+
+    it('should spread sends without a session across sessions', async () => {
+      pooled.createSession('sales');
+      pooled.createSession('support');
+
+      const results = await Promise.all([1, 2, 3].map(n => pooled.queueMessage('+14155552671', `Update ${n}`)));
+
+      expect(results.map(result => result.sessionId)).toEqual(['sales', 'support', 'sales']);
+      expect((await pooled.queueMessage('+14155552671', 'Pinned', { sessionId: 'support' })).sessionId).toBe('support');
+    });
+
+    it('should send messages with the same idempotency key from the same session', async () => {
+      pooled.createSession('sales');
+      pooled.createSession('support');
+
+      const first = await pooled.queueMessage('+14155552671', 'Your order shipped', { idempotencyKey: 'order-42' });
+      const again = await pooled.queueMessage('+14155552671', 'Your order shipped', { idempotencyKey: 'order-42' });
+
+      expect(again).toMatchObject({ sessionId: first.sessionId, messageId: first.messageId, replayed: true });
+    });
+
+    it('should move pending messages off a logged-out session', async () => {
+      const sales = pooled.createSession('sales');
+      const support = pooled.createSession('support');
+      [sales, support].forEach(connect);
+      const queued = await pooled.queueMessage('+14155552671', 'Your order shipped', { sessionId: 'sales' });
+      const failover = new Promise(resolve => pooled.once('session:failover', resolve));
+      const onUnavailable = jest.fn();
+      pooled.on('session:unavailable', onUnavailable);
+
+      sales.emit('loggedOut');
+
+      expect(await failover).toEqual({ fromSessionId: 'sales', toSessionId: 'support', moved: 1 });
+      expect(onUnavailable).toHaveBeenCalledWith({ sessionId: 'sales', reason: 'logged_out' });
+      expect(await (sales as any).queueStore.read(`pending/${queued.messageId}`)).toBeNull();
+      expect(await (support as any).queueStore.read(`pending/${queued.messageId}`))
+        .toMatchObject({ message: 'Your order shipped', transferredFrom: 'sales' });
+      expect((await pooled.queueMessage('+14155552671', 'Next')).sessionId).toBe('support');
+      expect(pooled.getPoolStats().find(stats => stats.sessionId === 'sales')?.loggedOut).toBe(true);
+    });
+
+    it('should not count sends held back by the session\'s own rate limiter as failures', () => {
+      const sales = pooled.createSession('sales');
+      pooled.createSession('support');
+      [1, 2, 3].forEach(() => sales.emit('routing:decision', {
+        number: '+14155552671', route: 'queue', reason: 'rate_limited', timestamp: Date.now()
+      }));
+
+      expect(pooled.getPoolStats().find(stats => stats.sessionId === 'sales')).toMatchObject({ failed: 0, consecutiveFailures: 0 });
+
+      [1, 2, 3].forEach(() => sales.emit('routing:decision', {
+        number: '+14155552671', route: 'queue', reason: 'direct_send_failed', timestamp: Date.now()
+      }));
+      expect(pooled.getPoolStats().find(stats => stats.sessionId === 'sales')).toMatchObject({ failed: 3 });
+    });
+
+    it('should retry a send that throws on the next session', async () => {
+      const sales = pooled.createSession('sales');
+      pooled.createSession('support');
+      jest.spyOn(sales, 'queueMessage').mockRejectedValue(new Error('Failed to queue message: network error'));
+
+      const result = await pooled.queueMessage('+14155552671', 'Hello');
+
+      expect(result.sessionId).toBe('support');
+    });
+  });
+});
\ No newline at end of file
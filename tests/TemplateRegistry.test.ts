@@ -0,0 +1,58 @@
+import { TemplateRegistry } from '../src/TemplateRegistry';
+import { MemoryQueueStore } from '../src/MemoryQueueStore';
+import { ValidationError } from '../src/types';
+
+describe('TemplateRegistry', () => {
+  let store: MemoryQueueStore;
+  let templates: TemplateRegistry;
+
+  beforeEach(async () => {
+    store = new MemoryQueueStore();
+    templates = new TemplateRegistry(store);
+    await templates.register('otp', {
+      locales: {
+        en: 'Your code is {{code}}. It expires in {{ minutes }} minutes.',
+        pt: 'Seu código é {{code}}. Expira em {{minutes}} minutos.'
+      }
+    });
+  });
+
+  it('should interpolate variables in the requested locale', async () => {
+    const rendered = await templates.render('otp', { code: '123456', minutes: 5 }, 'pt-BR');
+
+    expect(rendered).toEqual({ text: 'Seu código é 123456. Expira em 5 minutos.', locale: 'pt' });
+  });
+
+  it('should fall back to the default locale', async () => {
+    const rendered = await templates.render('otp', { code: '1', minutes: 5 }, 'de');
+
+    expect(rendered.locale).toBe('en');
+    expect(rendered.text).toBe('Your code is 1. It expires in 5 minutes.');
+  });
+
+  it('should reject missing variables with a ValidationError', async () => {
+    const render = templates.render('otp', { code: '123456' });
+
+    await expect(render).rejects.toBeInstanceOf(ValidationError);
+    await expect(templates.render('otp', {})).rejects.toThrow('Missing variables for template "otp": code, minutes');
+  });
+
+  it('should validate placeholders when registering', async () => {
+    await expect(templates.register('bad', { locales: { en: 'Hi {{first name}}' } }))
+      .rejects.toThrow('invalid placeholder');
+    await expect(templates.register('bad', { locales: { en: 'Hi {{name}' } }))
+      .rejects.toThrow('unclosed placeholder');
+    await expect(templates.register('bad', { locales: {} })).rejects.toThrow('at least one locale');
+  });
+
+  it('should pick up templates edited directly in the store', async () => {
+    await store.write('templates/otp/locales/en', 'Code: {{code}}');
+
+    const rendered = await templates.render('otp', { code: '42' }, 'en');
+
+    expect(rendered.text).toBe('Code: 42');
+    expect((await templates.list()).map(t => t.name)).toEqual(['otp']);
+    expect(await templates.remove('otp')).toBe(true);
+    expect(await templates.get('otp')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -71,6 +71,15 @@ describe('Whaple', () => {
         });
       }).toThrow('Firebase configuration is required');
     });
+
+    it('should create instance without Firebase when using the memory queue store', () => {
+      const whaple = new Whaple({
+        useDirectWhatsApp: true,
+        queueStore: 'memory'
+      });
+
+      expect(whaple).toBeInstanceOf(Whaple);
+    });
   });
 
   describe('Phone Number Normalization', () => {
@@ -86,20 +95,45 @@ describe('Whaple', () => {
 
     it('should normalize phone numbers correctly', () => {
       // Access private method via any for testing
-      const normalizePhoneNumber = (whaple as any).normalizePhoneNumber;
+      const normalizePhoneNumber = (whaple as any).normalizePhoneNumber.bind(whaple);
       
-      expect(normalizePhoneNumber('1234567890')).toBe('+1234567890');
-      expect(normalizePhoneNumber('+1234567890')).toBe('+1234567890');
-      expect(normalizePhoneNumber('(123) 456-7890')).toBe('+1234567890');
-      expect(normalizePhoneNumber('123-456-7890')).toBe('+1234567890');
+      expect(normalizePhoneNumber('14155552671')).toBe('+14155552671');
+      expect(normalizePhoneNumber('+14155552671')).toBe('+14155552671');
+      expect(normalizePhoneNumber('+1 (415) 555-2671')).toBe('+14155552671');
+      expect(normalizePhoneNumber('001-415-555-2671')).toBe('+14155552671');
+      expect(normalizePhoneNumber('+44 (0)20 7946 0958')).toBe('+442079460958');
+      expect(normalizePhoneNumber('+52 1 55 1234 5678')).toBe('+5215512345678');
+    });
+
+    it('should apply the default country code to national numbers', () => {
+      const local = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory', defaultCountryCode: '+27' });
+      const normalizePhoneNumber = (local as any).normalizePhoneNumber.bind(local);
+
+      expect(normalizePhoneNumber('0821234567')).toBe('+27821234567');
+      expect(normalizePhoneNumber('082 123 4567')).toBe('+27821234567');
+      expect(normalizePhoneNumber('27821234567')).toBe('+27821234567');
+      expect(normalizePhoneNumber('+14155552671')).toBe('+14155552671');
+      expect(() => new Whaple({ useDirectWhatsApp: true, queueStore: 'memory', defaultCountryCode: '0' }))
+        .toThrow('Invalid defaultCountryCode');
     });
 
     it('should throw error for invalid phone numbers', () => {
-      const normalizePhoneNumber = (whaple as any).normalizePhoneNumber;
+      const normalizePhoneNumber = (whaple as any).normalizePhoneNumber.bind(whaple);
+      const codeOf = (number: any) => {
+        try {
+          normalizePhoneNumber(number);
+        } catch (error) {
+          return (error as any).code;
+        }
+      };
       
       expect(() => normalizePhoneNumber('')).toThrow('Phone number is required');
       expect(() => normalizePhoneNumber(null)).toThrow('Phone number is required');
       expect(() => normalizePhoneNumber(undefined)).toThrow('Phone number is required');
+      expect(codeOf('0821234567')).toBe('PHONE_COUNTRY_CODE_REQUIRED');
+      expect(codeOf('+1 415 555 267')).toBe('PHONE_INVALID_LENGTH');
+      expect(codeOf('+1 415 CALL NOW')).toBe('PHONE_INVALID_FORMAT');
+      expect(codeOf('+0 415 555 2671')).toBe('PHONE_INVALID_COUNTRY_CODE');
     });
   });
 
@@ -118,6 +152,55 @@ describe('Whaple', () => {
         });
       }).not.toThrow();
     });
+
+    it('should keep queued messages when reconfiguring', async () => {
+      const whaple = new Whaple({ whatsappServerUrl: 'http://test.com', apiKey: 'test-key', queueStore: 'memory' });
+      await whaple.queueMessage('+14155552671', 'Hello');
+
+      whaple.configure({ apiKey: 'new-key' });
+
+      expect((await whaple.getQueueStatus()).pendingMessages).toBe(1);
+    });
+
+    it('should keep registered templates when reconfiguring', async () => {
+      const whaple = new Whaple({ whatsappServerUrl: 'http://test.com', apiKey: 'test-key', queueStore: 'memory' });
+      await whaple.registerTemplate('welcome', { locales: { en: 'Hi {{name}}' } });
+
+      whaple.configure({ apiKey: 'new-key' });
+
+      expect((await whaple.listTemplates()).map(t => t.name)).toEqual(['welcome']);
+    });
+
+    it('should update the limiter and breaker in place and keep the worker running', async () => {
+      const whaple = new Whaple({
+        whatsappServerUrl: 'http://test.com',
+        apiKey: 'test-key',
+        queueStore: 'memory',
+        enableQueueWorker: true,
+        rateLimit: { messagesPerMinute: 60 }
+      });
+      const rateLimiter = (whaple as any).rateLimiter;
+      const circuitBreaker = (whaple as any).circuitBreaker;
+      await (whaple as any).queueWorker.start();
+
+      whaple.configure({ rateLimit: { messagesPerMinute: 30 }, circuitBreaker: { openDuration: 1000 } });
+
+      expect((whaple as any).rateLimiter).toBe(rateLimiter);
+      expect(rateLimiter.getAvailableTokens()).toBe(30);
+      expect((whaple as any).circuitBreaker).toBe(circuitBreaker);
+      expect((whaple as any).queueWorker.getStats().isRunning).toBe(true);
+      await whaple.cleanup();
+    });
+
+    it('should keep the WhatsApp connection when reconfiguring', () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, firebaseConfig: mockFirebaseConfig });
+      const connection = (whaple as any).whatsappConnection;
+
+      whaple.configure({ messageHistory: { enabled: false }, rateLimit: { messagesPerMinute: 10 } });
+
+      expect((whaple as any).whatsappConnection).toBe(connection);
+      expect(connection.messageHistory).toBeUndefined();
+    });
   });
 
   describe('Connection Status', () => {
@@ -154,10 +237,21 @@ describe('Whaple', () => {
 
       // Should throw error when WhatsApp is not connected
       await expect(
-        whaple.sendMessage('+1234567890', 'Test message')
+        whaple.sendMessage('+14155552671', 'Test message')
       ).rejects.toThrow();
     });
 
+    it('should reject media with an unsupported type', async () => {
+      const whaple = new Whaple({
+        useDirectWhatsApp: true,
+        firebaseConfig: mockFirebaseConfig
+      });
+
+      await expect(
+        whaple.sendMedia('+14155552671', { type: 'gif' as any, source: 'https://example.com/a.gif' })
+      ).rejects.toThrow('Media type must be one of');
+    });
+
     it('should handle getMessageHistory errors gracefully', async () => {
       const whaple = new Whaple({
         useDirectWhatsApp: true,
@@ -166,11 +260,445 @@ describe('Whaple', () => {
 
       // Should throw error when WhatsApp is not connected
       await expect(
-        whaple.getMessageHistory('+1234567890', 20)
+        whaple.getMessageHistory('+14155552671', 20)
       ).rejects.toThrow('WhatsApp not connected');
     });
   });
 
+  describe('Events', () => {
+    it('should emit routing and queued events when queueing a message', async () => {
+      const whaple = new Whaple({
+        whatsappServerUrl: 'http://test.com',
+        apiKey: 'test-key',
+        queueStore: 'memory',
+        enableSmartRouting: false
+      });
+      const onDecision = jest.fn();
+      const onQueued = jest.fn();
+      whaple.on('routing:decision', onDecision);
+      whaple.on('message:queued', onQueued);
+
+      const result = await whaple.sendMessage('+14155552671', 'Test message');
+
+      expect(onDecision).toHaveBeenCalledWith(expect.objectContaining({
+        route: 'queue',
+        reason: 'smart_routing_disabled'
+      }));
+      expect(onQueued).toHaveBeenCalledWith(result);
+    });
+  });
+
+  describe('Idempotency', () => {
+    it('should return the original result for a repeated idempotency key', async () => {
+      const whaple = new Whaple({
+        whatsappServerUrl: 'http://test.com',
+        apiKey: 'test-key',
+        queueStore: 'memory',
+        enableSmartRouting: false
+      });
+
+      const first = await whaple.sendMessage('+14155552671', 'Order shipped', { idempotencyKey: 'order-42' });
+      const replay = await whaple.sendMessage('+14155552671', 'Order shipped', { idempotencyKey: 'order-42' });
+      const other = await whaple.queueMessage('+14155552671', 'Order shipped', { idempotencyKey: 'order-43' });
+
+      expect(replay).toMatchObject({ messageId: first.messageId, replayed: true });
+      expect(other.messageId).not.toBe(first.messageId);
+      expect((await whaple.getQueueStatus()).pendingMessages).toBe(2);
+    });
+  });
+
+  describe('Bulk Sending', () => {
+    const createWhaple = () => new Whaple({
+      whatsappServerUrl: 'http://test.com',
+      apiKey: 'test-key',
+      queueStore: 'memory',
+      enableSmartRouting: false
+    });
+
+    it('should send every message and report progress and counts', async () => {
+      const whaple = createWhaple();
+      const onProgress = jest.fn();
+
+      const result = await whaple.sendBulk([
+        { number: '+14155552671', message: 'One' },
+        { number: '', message: 'Two' },
+        { number: '+14155550123', message: 'Three' }
+      ], { concurrency: 2, onProgress });
+
+      expect(result.results.map(r => r.success)).toEqual([true, false, true]);
+      expect(result.results[1]).toMatchObject({ success: false, method: 'failed' });
+      expect(result.results[1].error).toContain('Phone number is required');
+      expect(result).toMatchObject({
+        totalSent: 2,
+        totalFailed: 1,
+        summary: { successful: 2, failed: 1, direct: 0, queued: 2, skipped: 0 }
+      });
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 3, total: 3 }));
+    });
+
+    it('should stop starting sends after a failure with stopOnError', async () => {
+      const whaple = createWhaple();
+      const queued = jest.fn();
+      whaple.on('message:queued', queued);
+
+      const result = await whaple.sendBulk([
+        { number: '+14155552671', message: 'One' },
+        { number: '+14155552671' },
+        { number: '+14155550123', message: 'Three' }
+      ], { stopOnError: true, routing: 'queue' });
+
+      expect(result.results).toHaveLength(2);
+      expect(result.summary).toMatchObject({ successful: 1, failed: 1, skipped: 1 });
+      expect((await whaple.getQueueStatus()).pendingMessages).toBe(1);
+      expect(queued).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Recipient Verification', () => {
+    it('should cache lookups and reject unregistered recipients', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+      const lookup = jest.spyOn((whaple as any).whatsappConnection, 'onWhatsApp')
+        .mockImplementation(async (numbers: any) => numbers.map((number: string) => ({
+          number,
+          exists: number === '+14155552671',
+          checkedAt: Date.now()
+        })));
+
+      const results = await whaple.isOnWhatsApp(['+1 415 555 2671', '+14155550123']);
+      await whaple.isOnWhatsApp(['14155552671']);
+
+      expect(results.map(r => [r.number, r.exists])).toEqual([['+14155552671', true], ['+14155550123', false]]);
+      expect(lookup).toHaveBeenCalledTimes(1);
+
+      await expect(whaple.queueMessage('+14155550123', 'Hello', { verifyRecipient: true }))
+        .rejects.toMatchObject({ name: 'NotOnWhatsAppError', code: 'NOT_ON_WHATSAPP' });
+      await whaple.queueMessage('+14155552671', 'Hello', { verifyRecipient: true });
+      expect((await whaple.getQueueStatus()).pendingMessages).toBe(1);
+    });
+  });
+
+  describe('WhatsApp Lookups', () => {
+    it('should match registrations when WhatsApp answers with a different form of the number', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+      const connection = (whaple as any).whatsappConnection;
+      connection.isConnected = true;
+      connection.sock = {
+        onWhatsApp: jest.fn().mockResolvedValue([
+          { jid: '551187654321@s.whatsapp.net', exists: true },
+          { jid: '5215512345678@s.whatsapp.net', exists: true }
+        ])
+      };
+
+      const results = await connection.onWhatsApp(['+5511987654321', '+525512345678', '+14155550123']);
+
+      expect(results.map((r: any) => [r.exists, r.jid])).toEqual([
+        [true, '551187654321@s.whatsapp.net'],
+        [true, '5215512345678@s.whatsapp.net'],
+        [false, undefined]
+      ]);
+    });
+  });
+
+  describe('Groups', () => {
+    it('should queue group messages with a group JID type while disconnected', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+
+      const result = await whaple.sendToGroup('120363025246125486', 'Standup in 5 minutes');
+      const pending = await (whaple as any).queueStore.read(`pending/${result.messageId}`);
+
+      expect(result.method).toBe('queued');
+      expect(pending).toMatchObject({ number: '120363025246125486@g.us', jidType: 'group' });
+      await expect(whaple.sendToGroup('not a group', 'Hi')).rejects.toMatchObject({ code: 'GROUP_INVALID_ID' });
+    });
+
+    it('should manage groups through the connected socket', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+      const sock = {
+        groupMetadata: jest.fn().mockResolvedValue({
+          id: '120363025246125486@g.us',
+          subject: 'Team',
+          owner: '14155552671@s.whatsapp.net',
+          creation: 1700000000,
+          participants: [
+            { id: '14155552671@s.whatsapp.net', admin: 'superadmin' },
+            { id: '14155550123@s.whatsapp.net', admin: null }
+          ]
+        }),
+        groupParticipantsUpdate: jest.fn().mockResolvedValue([{ jid: '14155550199@s.whatsapp.net', status: '200' }])
+      };
+      Object.assign((whaple as any).whatsappConnection, { isConnected: true, sock });
+
+      const group = await whaple.getGroupMetadata('120363025246125486@g.us');
+      const added = await whaple.addGroupParticipants('120363025246125486', ['+1 415 555 0199']);
+
+      expect(group).toMatchObject({ subject: 'Team', size: 2, createdAt: 1700000000000 });
+      expect(group.participants[0]).toEqual({
+        jid: '14155552671@s.whatsapp.net',
+        number: '+14155552671',
+        isAdmin: true,
+        isSuperAdmin: true
+      });
+      expect(sock.groupParticipantsUpdate)
+        .toHaveBeenCalledWith('120363025246125486@g.us', ['14155550199@s.whatsapp.net'], 'add');
+      expect(added).toEqual([{ jid: '14155550199@s.whatsapp.net', number: '+14155550199', status: '200', success: true }]);
+    });
+
+    it('should reject group APIs in API mode', async () => {
+      const whaple = new Whaple({ whatsappServerUrl: 'http://test.com', apiKey: 'test-key', queueStore: 'memory' });
+
+      await expect(whaple.listGroups()).rejects.toThrow('only available in direct WhatsApp mode');
+    });
+  });
+
+  describe('Interactive Messages', () => {
+    it('should send replies with the quoted message key in direct mode', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+      const sock = { sendMessage: jest.fn().mockResolvedValue({ key: { id: 'OUT1' } }) };
+      Object.assign((whaple as any).whatsappConnection, { isConnected: true, isAuthenticated: true, sock });
+
+      const result = await whaple.sendMessage('+14155552671', {
+        type: 'text',
+        text: 'Yes, it ships today',
+        quoted: { id: 'ABC123', text: 'Is my order on its way?' }
+      });
+
+      expect(result.messageId).toBe('OUT1');
+      expect(sock.sendMessage).toHaveBeenCalledWith(
+        '14155552671@s.whatsapp.net',
+        { text: 'Yes, it ships today' },
+        {
+          quoted: {
+            key: { remoteJid: '14155552671@s.whatsapp.net', id: 'ABC123', fromMe: false },
+            message: { conversation: 'Is my order on its way?' }
+          }
+        }
+      );
+    });
+
+    it('should queue content with a text summary', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+
+      const result = await whaple.queueMessage('+14155552671', {
+        type: 'poll',
+        name: 'How was your delivery?',
+        options: ['Great', 'Okay', 'Poor'],
+        quoted: undefined
+      });
+      const pending = await (whaple as any).queueStore.read(`pending/${result.messageId}`);
+
+      expect(pending.message).toBe('Poll: How was your delivery?');
+      expect(pending.content).toEqual({ type: 'poll', name: 'How was your delivery?', options: ['Great', 'Okay', 'Poor'] });
+      await expect(whaple.queueMessage('+14155552671', { type: 'poll', name: 'Empty', options: [] }))
+        .rejects.toThrow('2 to 12 options');
+    });
+  });
+
+  describe('Location and Contact Messages', () => {
+    it('should send locations and contact cards through the socket', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+      const sock = { sendMessage: jest.fn().mockResolvedValue({ key: { id: 'OUT2' } }) };
+      Object.assign((whaple as any).whatsappConnection, { isConnected: true, isAuthenticated: true, sock });
+
+      await whaple.sendLocation('+14155552671', { lat: 37.7749, lng: -122.4194, name: 'Warehouse' });
+      await whaple.sendContact('+14155552671', { fullName: 'Support', phones: ['+14155550123'] });
+
+      expect(sock.sendMessage).toHaveBeenNthCalledWith(1, '14155552671@s.whatsapp.net', {
+        location: { degreesLatitude: 37.7749, degreesLongitude: -122.4194, name: 'Warehouse', address: undefined }
+      }, undefined);
+      expect(sock.sendMessage.mock.calls[1][1].contacts).toEqual({
+        displayName: 'Support',
+        contacts: [{ vcard: 'BEGIN:VCARD\nVERSION:3.0\nFN:Support\nTEL;type=CELL;waid=14155550123:+14155550123\nEND:VCARD' }]
+      });
+    });
+
+    it('should queue the linkPreview option with text messages', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+
+      const result = await whaple.queueMessage('+14155552671', 'Track it at https://example.com/42', { linkPreview: false });
+      const pending = await (whaple as any).queueStore.read(`pending/${result.messageId}`);
+
+      expect(pending.message).toBe('Track it at https://example.com/42');
+      expect(pending.content).toEqual({ type: 'text', text: 'Track it at https://example.com/42', linkPreview: false });
+      await expect(whaple.sendLocation('+14155552671', { lat: 100, lng: 0 })).rejects.toThrow('Latitude');
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const createWhaple = () => new Whaple({
+      whatsappServerUrl: 'http://test.com',
+      apiKey: 'test-key',
+      queueStore: 'memory',
+      circuitBreaker: { minimumCalls: 2, failureThreshold: 0.5, openDuration: 60000 }
+    });
+
+    it('should send without pre-checks while closed and queue without calling the server once open', async () => {
+      const whaple = createWhaple();
+      const apiClient = (whaple as any).apiClient;
+      const healthCheck = jest.spyOn((whaple as any).healthChecker, 'isServerHealthy');
+      const send = jest.spyOn(apiClient, 'sendMessage').mockRejectedValue(new Error('HTTP 503'));
+      const onCircuit = jest.fn();
+      whaple.on('circuit:changed', onCircuit);
+
+      await whaple.sendMessage('+14155552671', 'One');
+      await whaple.sendMessage('+14155552671', 'Two');
+      const third = await whaple.sendMessage('+14155552671', 'Three');
+
+      expect(healthCheck).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(third.method).toBe('queued');
+      expect(onCircuit).toHaveBeenCalledWith(expect.objectContaining({ state: 'open', reason: 'failure_rate' }));
+      expect((await whaple.getSystemStatus()).circuitBreaker).toMatchObject({ state: 'open', failures: 2 });
+    });
+
+    it('should probe health before the trial call and close when it succeeds', async () => {
+      const whaple = createWhaple();
+      const breaker = (whaple as any).circuitBreaker;
+      breaker.recordFailure('HTTP 503');
+      breaker.recordFailure('HTTP 503');
+      breaker.recordHealth(true);
+      const healthCheck = jest.spyOn((whaple as any).healthChecker, 'isServerHealthy').mockResolvedValue(true);
+      jest.spyOn((whaple as any).apiClient, 'sendMessage').mockResolvedValue({ messageId: 'api-1' });
+      const onDecision = jest.fn();
+      whaple.on('routing:decision', onDecision);
+
+      const result = await whaple.sendMessage('+14155552671', 'Back up?');
+
+      expect(healthCheck).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ method: 'direct', messageId: 'api-1' });
+      expect(onDecision).toHaveBeenCalledWith(expect.objectContaining({ route: 'direct', reason: 'circuit_trial' }));
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should queue direct sends once the burst is spent', async () => {
+      const whaple = new Whaple({
+        useDirectWhatsApp: true,
+        queueStore: 'memory',
+        rateLimit: { messagesPerMinute: 60, burst: 2, perRecipientInterval: 60000 }
+      });
+      const connection = (whaple as any).whatsappConnection;
+      jest.spyOn(connection, 'getConnectionStatus').mockReturnValue({ isConnected: true, isAuthenticated: true });
+      const send = jest.spyOn(connection, 'sendMessage').mockResolvedValue({ success: true, method: 'direct' });
+      const onDecision = jest.fn();
+      whaple.on('routing:decision', onDecision);
+
+      await whaple.sendMessage('+14155552671', 'First');
+      const throttled = await whaple.sendMessage('+14155552671', 'Second');
+      await whaple.sendMessage('+14155550123', 'Third');
+      const overLimit = await whaple.sendMessage('+14155550199', 'Fourth');
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(throttled.method).toBe('queued');
+      expect(overLimit.method).toBe('queued');
+      expect(onDecision).toHaveBeenCalledWith(expect.objectContaining({ route: 'queue', reason: 'rate_limited' }));
+      expect((await whaple.getQueueStatus()).pendingMessages).toBe(2);
+    });
+
+    it('should reject a non-positive messagesPerMinute', () => {
+      expect(() => new Whaple({
+        useDirectWhatsApp: true,
+        queueStore: 'memory',
+        rateLimit: { messagesPerMinute: 0 }
+      })).toThrow('rateLimit.messagesPerMinute');
+    });
+  });
+
+  describe('Scheduled Messages', () => {
+    let whaple: Whaple;
+
+    beforeEach(() => {
+      whaple = new Whaple({
+        whatsappServerUrl: 'http://test.com',
+        apiKey: 'test-key',
+        queueStore: 'memory'
+      });
+    });
+
+    it('should schedule, list, reschedule and cancel messages', async () => {
+      const result = await whaple.scheduleMessage('+14155552671', 'Later', { delayMs: 60000 });
+      expect(result.method).toBe('scheduled');
+      expect(result.sendAt).toBeGreaterThan(Date.now());
+
+      const sendAt = new Date(Date.now() + 3600000);
+      const updated = await whaple.rescheduleMessage(result.messageId, { sendAt });
+      expect(updated.sendAt).toBe(sendAt.getTime());
+
+      const scheduled = await whaple.listScheduledMessages();
+      expect(scheduled.map(m => m.id)).toEqual([result.messageId]);
+      expect((await whaple.getQueueStatus()).scheduledMessages).toBe(1);
+
+      expect(await whaple.cancelScheduledMessage(result.messageId)).toBe(true);
+      expect(await whaple.cancelScheduledMessage(result.messageId)).toBe(false);
+      expect(await whaple.listScheduledMessages()).toHaveLength(0);
+    });
+
+    it('should warn once in debug mode when no queue worker will send scheduled messages', async () => {
+      (console.warn as jest.Mock).mockClear();
+      whaple.configure({ debug: true });
+
+      await whaple.scheduleMessage('+14155552671', 'Later', { delayMs: 60000 });
+      await whaple.scheduleMessage('+14155552671', 'Later again', { delayMs: 60000 });
+
+      const warnings = (console.warn as jest.Mock).mock.calls.filter(([text]) => String(text).includes('enableQueueWorker'));
+      expect(warnings).toHaveLength(1);
+    });
+
+    it('should require exactly one of sendAt or delayMs', async () => {
+      await expect(whaple.scheduleMessage('+14155552671', 'Later', {}))
+        .rejects.toThrow('Provide either sendAt or delayMs');
+      await expect(whaple.scheduleMessage('+14155552671', 'Later', { sendAt: Date.now(), delayMs: 1000 }))
+        .rejects.toThrow('Provide either sendAt or delayMs');
+      await expect(whaple.scheduleMessage('+14155552671', 'Later', { sendAt: new Date('invalid') }))
+        .rejects.toThrow('sendAt must be a Date');
+    });
+  });
+
+  describe('Incoming Messages', () => {
+    const incoming = {
+      id: 'ABC123',
+      chatId: '1234567890@s.whatsapp.net',
+      sender: '+14155552671',
+      senderJid: '1234567890@s.whatsapp.net',
+      isGroup: false,
+      fromMe: false,
+      type: 'conversation',
+      text: 'Hi there',
+      timestamp: 1700000000000,
+      raw: { key: { id: 'ABC123' } }
+    };
+
+    it('should deliver inbound messages to onMessage handlers and persist them', async () => {
+      const whaple = new Whaple({
+        useDirectWhatsApp: true,
+        queueStore: 'memory',
+        incomingMessages: { persist: true }
+      });
+      const handler = jest.fn();
+      whaple.onMessage(handler);
+
+      (whaple as any).whatsappConnection.emit('message', incoming);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(handler).toHaveBeenCalledWith(incoming);
+      const stored = await (whaple as any).queueStore.read('incoming/ABC123');
+      expect(stored).toMatchObject({ sender: '+14155552671', text: 'Hi there' });
+      expect(stored.raw).toBeUndefined();
+    });
+
+    it('should ignore messages sent from this account by default', async () => {
+      const whaple = new Whaple({ useDirectWhatsApp: true, queueStore: 'memory' });
+      const handler = jest.fn();
+      whaple.onMessage(handler);
+
+      (whaple as any).whatsappConnection.emit('message', { ...incoming, fromMe: true });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Cleanup', () => {
     it('should cleanup resources properly', async () => {
       const whaple = new Whaple({